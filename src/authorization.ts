@@ -0,0 +1,141 @@
+import { GqlBase, GqlList, GqlRecord, IGqlObjectLayout, TGqlFilterTypes } from './types'
+
+/** Beschreibt den Aufrufer einer GraphQL Operation. */
+export interface ICaller {
+    /** Optional die eindeutige Kennung des Aufrufers. */
+    id?: string
+    /** Alle Rollen des Aufrufers. */
+    roles?: string[]
+}
+
+/** Ermittelt zum GraphQL Kontext eines Aufrufs den Aufrufer. */
+export type TGetCaller<TContext = unknown> = (context: TContext) => ICaller | Promise<ICaller>
+
+/** Der Aufrufer, wenn keine Ermittlung vorgesehen ist. */
+export const anonymous: TGetCaller = () => ({})
+
+/** Die bereits ermittelten Aufrufer zu jedem GraphQL Kontext. */
+const callers = new WeakMap<object, Promise<ICaller>>()
+
+/**
+ * Ermittelt den Aufrufer zu einem GraphQL Kontext - pro Kontext allerdings nur ein einziges Mal.
+ *
+ * @param context der GraphQL Kontext des Aufrufs.
+ * @param getCaller die Methode zur Ermittlung des Aufrufers.
+ */
+export function resolveCaller<TContext>(context: TContext, getCaller: TGetCaller<TContext>): Promise<ICaller> {
+    /** Ohne einen echten Kontext kann nichts vermerkt werden. */
+    if (!context || typeof context !== 'object') {
+        return Promise.resolve(getCaller(context))
+    }
+
+    let caller = callers.get(context)
+
+    if (!caller) {
+        callers.set(context, (caller = Promise.resolve(getCaller(context))))
+    }
+
+    return caller
+}
+
+/**
+ * Meldet den zu einem GraphQL Kontext bereits ermittelten Aufrufer.
+ *
+ * @param context der GraphQL Kontext des Aufrufs.
+ */
+export function getCaller(context: unknown): Promise<ICaller | undefined> {
+    return (context && typeof context === 'object' && callers.get(context)) || Promise.resolve(undefined)
+}
+
+/**
+ * Prüft, ob ein Aufrufer eine der geforderten Rollen besitzt.
+ *
+ * @param caller der Aufrufer.
+ * @param roles die geforderten Rollen - ohne Angabe ist der Zugriff immer erlaubt.
+ */
+export function isAllowed(caller: ICaller, roles: string[] | undefined): boolean {
+    return !roles || roles.some((role) => caller.roles?.includes(role))
+}
+
+/**
+ * Prüft, ob ein Aufrufer ein Feld auslesen darf - dabei werden auch alle übergeordneten Felder geprüft.
+ *
+ * @param type die Typdefinition des Objektes.
+ * @param path der Name des Feldes, Unterobjekte werden durch Punkte getrennt.
+ * @param caller der Aufrufer.
+ */
+export function isFieldAllowed(
+    type: GqlBase<unknown, TGqlFilterTypes, unknown>,
+    path: string,
+    caller: ICaller
+): boolean {
+    for (const field of path.split('.')) {
+        if (type instanceof GqlList) {
+            type = type.item
+        }
+
+        const fieldType = type instanceof GqlRecord && (type.layout as IGqlObjectLayout)?.[field]
+
+        if (!fieldType) {
+            return true
+        }
+
+        if (!isAllowed(caller, fieldType.options.access?.read)) {
+            return false
+        }
+
+        type = fieldType
+    }
+
+    return true
+}
+
+/**
+ * Entfernt aus einem GraphQL Ergebnis alle Felder, die der Aufrufer nicht auslesen darf.
+ *
+ * @param value das Ergebnis.
+ * @param type die Typdefinition des Ergebnisses.
+ * @param caller der Aufrufer.
+ */
+export function maskResult(value: unknown, type: GqlBase<unknown, TGqlFilterTypes, unknown>, caller: ICaller): unknown {
+    if (!value || typeof value !== 'object') {
+        return value
+    }
+
+    /** Bei Feldern werden alle Elemente einzeln geprüft. */
+    if (type instanceof GqlList) {
+        return Array.isArray(value) ? value.map((item) => maskResult(item, type.item, caller)) : value
+    }
+
+    if (!(type instanceof GqlRecord)) {
+        return value
+    }
+
+    /** Eine Kopie wird nur angelegt, wenn tatsächlich etwas verändert wird. */
+    const layout = type.layout as IGqlObjectLayout
+    const item = value as Record<string, unknown>
+
+    let masked = item
+
+    for (const field of Object.keys(layout || {})) {
+        const fieldType = layout[field]
+
+        if (!fieldType) {
+            continue
+        }
+
+        const current = item[field]
+        const allowed = isAllowed(caller, fieldType.options.access?.read)
+        const update = allowed ? maskResult(current, fieldType, caller) : undefined
+
+        if (update !== current) {
+            if (masked === item) {
+                masked = { ...item }
+            }
+
+            masked[field] = update
+        }
+    }
+
+    return masked
+}
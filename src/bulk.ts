@@ -0,0 +1,70 @@
+import { GraphQLError } from 'graphql'
+
+import { IFieldError } from './errors'
+import { GqlArray, GqlId, GqlInt, GqlNullable, GqlObject, GqlString, TGqlType } from './types'
+
+/** Beschreibung eines Fehlers bei der Prüfung eines einzelnen Feldes. */
+export const FieldError = GqlObject('FieldError', {
+    field: GqlString({ description: 'Der Pfad zum Feld, Unterobjekte werden durch Punkte getrennt.' }),
+    message: GqlString({ description: 'Die Fehlermeldung.' }),
+    type: GqlString({ description: 'Die Art der verletzten Prüfregel.' }),
+})
+
+/** Beschreibung eines Fehlers bei der Bearbeitung einer einzelnen Entität. */
+export const BulkError = GqlObject('BulkError', {
+    _id: GqlNullable(GqlId({ description: 'Die eindeutige Kennung der Entität, sofern bekannt.' })),
+    code: GqlNullable(GqlString({ description: 'Die Art des Fehlers, sofern bekannt.' })),
+    fields: GqlNullable(GqlArray(FieldError, { description: 'Die Fehler bei der Prüfung einzelner Felder.' })),
+    index: GqlNullable(GqlInt({ description: 'Die Position der Entität in der Liste der Eingaben.' })),
+    message: GqlString({ description: 'Die Fehlermeldung.' }),
+})
+
+/** Das Ergebnis einer Operation auf mehreren Entitäten - für alle Entitäten identisch. */
+export const BulkResult = GqlObject('BulkResult', {
+    count: GqlInt({ description: 'Die Anzahl der erfolgreich bearbeiteten Entitäten.' }),
+    errors: GqlArray(BulkError, { description: 'Alle Fehler bei der Bearbeitung einzelner Entitäten.' }),
+})
+
+/**
+ * Führt eine Operation nacheinander für mehrere Entitäten aus. Fehler bei einzelnen
+ * Entitäten brechen die Bearbeitung nicht ab, sondern werden im Ergebnis gemeldet.
+ *
+ * @param items die zu bearbeitenden Entitäten.
+ * @param getId ermittelt wenn möglich die eindeutige Kennung einer Entität.
+ * @param action führt die Operation für eine einzelne Entität aus.
+ * @param atomic gesetzt, wenn alle Entitäten in einer Transaktion bearbeitet werden - dann
+ * bricht der erste Fehler die Bearbeitung ab und verwirft die Transaktion.
+ */
+export async function runBulk<T>(
+    items: T[],
+    getId: (item: T) => string | undefined,
+    action: (item: T, index: number) => Promise<void>,
+    atomic = false
+): Promise<TGqlType<typeof BulkResult>> {
+    const result: TGqlType<typeof BulkResult> = { count: 0, errors: [] }
+
+    for (let index = 0; index < items.length; index++) {
+        try {
+            await action(items[index], index)
+
+            result.count++
+        } catch (error) {
+            if (atomic) {
+                throw error
+            }
+
+            /** Strukturierte Fehler werden als solche übernommen. */
+            const extensions = error instanceof GraphQLError ? error.extensions : {}
+
+            result.errors.push({
+                _id: getId(items[index]),
+                code: extensions.code as string,
+                fields: extensions.fields as IFieldError[],
+                index,
+                message: error instanceof Error ? error.message : String(error),
+            })
+        }
+    }
+
+    return result
+}
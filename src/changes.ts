@@ -0,0 +1,254 @@
+import * as mongodb from 'mongodb'
+
+import { IDatabaseChangeStream, IDatabaseCollection } from './connection'
+import { createError } from './errors'
+import { checkFilter, matchFilter } from './match'
+
+/** Die Arten von Veränderungen an Entitäten. */
+export type TChangeKind = 'added' | 'updated' | 'removed'
+
+/** Empfänger für Veränderungen. */
+type TChangeListener<TItem> = (kind: TChangeKind, item: TItem) => void
+
+/** Die maximale Anzahl von Veränderungen, die für eine Überwachung auf den Abruf warten dürfen. */
+const maxPending = 1000
+
+/**
+ * Verteilt Veränderungen an den Entitäten einer Collection (Tabelle) an alle Interessenten. Bevorzugt
+ * werden die Veränderungen über einen Change Stream von MongoDb ermittelt. Steht dieser nicht zur
+ * Verfügung, etwa weil die Datenbank nicht als Replica Set betrieben wird, müssen die Veränderungen
+ * explizit gemeldet werden - dann natürlich nur die aus dem eigenen Prozess.
+ */
+export class ChangeFeed<TItem> {
+    /** Alle aktuellen Interessenten. */
+    private readonly _listeners = new Set<TChangeListener<TItem>>()
+
+    /** Der aktuell verwendete Change Stream. */
+    private _stream: IDatabaseChangeStream<TItem>
+
+    /** Gesetzt, sobald der Change Stream die Veränderungen meldet. */
+    private _streaming = false
+
+    /** Gesetzt, wenn die Datenbank keine Change Streams unterstützt. */
+    private _unavailable = false
+
+    /**
+     * Initialisiert die Verteilung.
+     *
+     * @param _collection ermittelt die zu überwachende Collection (Tabelle).
+     * @param _softDelete gesetzt, wenn Entitäten beim Entfernen nur als entfernt markiert werden.
+     */
+    constructor(
+        private readonly _collection: () => Promise<IDatabaseCollection<TItem>>,
+        private readonly _softDelete = false
+    ) {}
+
+    /**
+     * Meldet eine Veränderung aus dem eigenen Prozess. Diese wird nur dann verteilt, wenn
+     * kein Change Stream aktiv ist.
+     *
+     * @param kind die Art der Veränderung.
+     * @param item die betroffene Entität.
+     */
+    notify(kind: TChangeKind, item: TItem): void {
+        if (!this._streaming) {
+            this._dispatch(kind, item)
+        }
+    }
+
+    /**
+     * Erstellt eine neue Überwachung. Eine Einschränkung, die nicht ausgewertet werden kann, wird
+     * sofort abgelehnt. Eine Überwachung, deren Veränderungen nicht schnell genug abgerufen werden,
+     * wird mit einem Fehler beendet.
+     *
+     * @param kind die Art der gewünschten Veränderungen.
+     * @param filter optional eine Einschränkung auf die Entitäten.
+     * @param transform bereitet eine Entität für die Auslieferung auf.
+     */
+    listen<TResult>(
+        kind: TChangeKind,
+        filter: mongodb.Filter<unknown>,
+        transform: (item: TItem) => Promise<TResult>
+    ): AsyncIterableIterator<TResult> {
+        try {
+            checkFilter(filter)
+        } catch (error) {
+            throw createError('BAD_USER_INPUT', 'bad filter', { reason: (error as Error).message })
+        }
+
+        /** Alle noch nicht abgerufenen Veränderungen und alle wartenden Abrufe. */
+        const pending: TItem[] = []
+        const waiting: { reject(error: unknown): void; resolve(result: IteratorResult<TResult>): void }[] = []
+
+        /** Gesetzt, sobald die Überwachung beendet ist - gegebenenfalls mit dem zu meldenden Fehler. */
+        let closed = false
+        let failure: unknown
+
+        /** Beenden der Überwachung. */
+        const close = (error?: unknown): void => {
+            closed = true
+
+            this._listeners.delete(listener)
+
+            if (this._listeners.size < 1) {
+                this._stop()
+            }
+
+            /** Ein Fehler wird an einen wartenden Abruf oder an den nächsten Abruf gemeldet. */
+            const next = waiting.shift()
+
+            if (error && next) {
+                next.reject(error)
+            } else if (error) {
+                failure = error
+            } else if (next) {
+                next.resolve({ done: true, value: undefined })
+            }
+
+            waiting.splice(0).forEach((other) => other.resolve({ done: true, value: undefined }))
+        }
+
+        const listener: TChangeListener<TItem> = (changeKind, item) => {
+            /** Ein Fehler in einer Überwachung darf weder die Änderung noch andere Überwachungen beeinträchtigen. */
+            try {
+                if (changeKind !== kind || !matchFilter(item, filter)) {
+                    return
+                }
+            } catch (error) {
+                close(error)
+
+                return
+            }
+
+            const next = waiting.shift()
+
+            /** Fehler bei der Aufbereitung werden an den wartenden Abruf gemeldet. */
+            if (next) {
+                transform(item).then((value) => next.resolve({ done: false, value }), next.reject)
+            } else if (pending.length < maxPending) {
+                pending.push(item)
+            } else {
+                close(new Error('subscription is not consumed fast enough'))
+            }
+        }
+
+        this._listeners.add(listener)
+        this._start()
+
+        return {
+            [Symbol.asyncIterator]() {
+                return this
+            },
+            next: async () => {
+                if (pending.length > 0) {
+                    return { done: false, value: await transform(pending.shift()) }
+                }
+
+                if (failure) {
+                    const error = failure
+
+                    failure = undefined
+
+                    throw error
+                }
+
+                if (closed) {
+                    return { done: true, value: undefined }
+                }
+
+                return new Promise<IteratorResult<TResult>>((resolve, reject) => waiting.push({ reject, resolve }))
+            },
+            return: async () => {
+                close()
+
+                return { done: true, value: undefined }
+            },
+            throw: async (error: unknown) => {
+                close()
+
+                throw error
+            },
+        }
+    }
+
+    /** Verteilt eine Veränderung an alle Interessenten. */
+    private _dispatch(kind: TChangeKind, item: TItem): void {
+        this._listeners.forEach((listener) => listener(kind, item))
+    }
+
+    /** Startet bei Bedarf den Change Stream. */
+    private _start(): void {
+        if (this._stream || this._unavailable) {
+            return
+        }
+
+        this._collection().then(
+            (collection) => {
+                if (this._stream || this._listeners.size < 1) {
+                    return
+                }
+
+                const stream = collection.watch([], {
+                    fullDocument: 'updateLookup',
+                    fullDocumentBeforeChange: 'whenAvailable',
+                })
+
+                this._stream = stream
+
+                /** Erst sobald der Change Stream bereit ist werden die Veränderungen aus dem eigenen Prozess nicht mehr direkt gemeldet. */
+                stream.once('resumeTokenChanged', () => (this._streaming = this._stream === stream))
+                stream.on('change', (change) => this._onChange(change))
+
+                /** Bei Fehlern wird auf die direkte Meldung von Veränderungen umgestellt. */
+                stream.on('error', () => {
+                    this._unavailable = true
+
+                    this._stop()
+                })
+            },
+            () => (this._unavailable = true)
+        )
+    }
+
+    /** Beendet den Change Stream. */
+    private _stop(): void {
+        const stream = this._stream
+
+        this._stream = undefined
+        this._streaming = false
+
+        stream?.close().catch((): void => undefined)
+    }
+
+    /** Prüft, ob eine Entität bereits als entfernt markiert ist. */
+    private _isRemoved(item: TItem): boolean {
+        return this._softDelete && !!(item as { _deletedAt?: Date })._deletedAt
+    }
+
+    /** Wertet eine Veränderung aus dem Change Stream aus. */
+    private _onChange(change: mongodb.ChangeStreamDocument<TItem>): void {
+        switch (change.operationType) {
+            case 'insert':
+                this._dispatch('added', change.fullDocument)
+                break
+            case 'replace':
+            case 'update':
+                /** Die Entität kann bereits wieder gelöscht worden sein. */
+                if (change.fullDocument) {
+                    this._dispatch(this._isRemoved(change.fullDocument) ? 'removed' : 'updated', change.fullDocument)
+                }
+                break
+            case 'delete':
+                /** Der Inhalt einer gelöschten Entität ist nur mit aktivierten Pre-Images bekannt, sonst nur die eindeutige Kennung. */
+                if (change.fullDocumentBeforeChange) {
+                    if (!this._isRemoved(change.fullDocumentBeforeChange)) {
+                        this._dispatch('removed', change.fullDocumentBeforeChange)
+                    }
+                } else if (!this._softDelete) {
+                    /** Beim Entfernen ohne physikalisches Löschen wurde das Entfernen bereits früher gemeldet. */
+                    this._dispatch('removed', { _id: change.documentKey._id } as TItem)
+                }
+                break
+        }
+    }
+}
@@ -0,0 +1,66 @@
+#!/usr/bin/env node
+
+import { existsSync, readFileSync, writeFileSync } from 'fs'
+import { resolve } from 'path'
+
+import { compareSchemaDefinitions, printSchemaDefinition } from './sdl'
+
+/** Die Hilfe zum Aufruf. */
+const usage = `Aufruf: mongodb-graphql-schema <modul> [<snapshot.graphql> [--update]]
+
+  <modul>             JavaScript Modul, das die Zugriffsklassen als "collections" (oder default) exportiert.
+  <snapshot.graphql>  Gespeichertes Schema, mit dem das aktuelle Schema verglichen wird.
+  --update            Das gespeicherte Schema durch das aktuelle ersetzen.
+
+Ohne gespeichertes Schema wird das aktuelle Schema ausgegeben.`
+
+/**
+ * Gibt das aktuelle Schema aus oder vergleicht es mit einem gespeicherten Schema - bei
+ * Abweichungen, die bestehende Clients stören können, wird das Programm mit einem Fehler
+ * beendet.
+ *
+ * @param args die Parameter des Aufrufs.
+ */
+async function main(args: string[]): Promise<number> {
+    const update = args.includes('--update')
+    const [modulePath, snapshotPath] = args.filter((arg) => arg !== '--update')
+
+    if (!modulePath) {
+        console.error(usage)
+
+        return 2
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const exported = require(resolve(modulePath))
+    const current = await printSchemaDefinition(exported.collections || exported.default)
+
+    if (!snapshotPath) {
+        process.stdout.write(current)
+
+        return 0
+    }
+
+    if (update || !existsSync(snapshotPath)) {
+        writeFileSync(snapshotPath, current)
+
+        return 0
+    }
+
+    const changes = compareSchemaDefinitions(readFileSync(snapshotPath, 'utf8'), current)
+
+    for (const change of changes) {
+        console.error(`${change.kind}: ${change.description}`)
+    }
+
+    return changes.length > 0 ? 1 : 0
+}
+
+main(process.argv.slice(2)).then(
+    (code) => process.exit(code),
+    (error) => {
+        console.error(error)
+
+        process.exit(2)
+    }
+)
@@ -0,0 +1,257 @@
+import * as graphql from 'graphql'
+
+import { Collection } from './collection'
+import { createSchemaConfiguration } from './schema'
+
+/** Die TypeScript Datentypen zu den einfachen GraphQL Typen. */
+const scalarTypes: Record<string, string> = {
+    Boolean: 'boolean',
+    Date: 'string',
+    DateTime: 'string',
+    Float: 'number',
+    ID: 'string',
+    Int: 'number',
+    String: 'string',
+}
+
+/**
+ * Erstellt einen Kommentar in TypeScript Notation.
+ *
+ * @param description die Beschreibung.
+ * @param indent die Einrückung.
+ */
+function toComment(description: string | undefined | null, indent = ''): string[] {
+    return description ? [`${indent}/** ${description.replace(/\*\//g, '* /')} */`] : []
+}
+
+/**
+ * Erstellt zu einem Namen die Notation mit großem Anfangsbuchstaben.
+ *
+ * @param name der Name.
+ */
+function toPascal(name: string): string {
+    return `${name.substring(0, 1).toUpperCase()}${name.substring(1)}`
+}
+
+/**
+ * Ermittelt den TypeScript Datentyp zu einem GraphQL Typ.
+ *
+ * @param type der GraphQL Typ.
+ */
+function toTypeScript(type: graphql.GraphQLType): string {
+    const nullable = !(type instanceof graphql.GraphQLNonNull)
+    const inner = graphql.getNullableType(type)
+
+    let name: string
+
+    if (inner instanceof graphql.GraphQLList) {
+        const item = toTypeScript(inner.ofType)
+
+        name = item.includes(' ') ? `(${item})[]` : `${item}[]`
+    } else if (inner instanceof graphql.GraphQLScalarType) {
+        name = scalarTypes[inner.name] || 'unknown'
+    } else {
+        name = (inner as graphql.GraphQLNamedType).name
+    }
+
+    return nullable ? `${name} | null` : name
+}
+
+/**
+ * Erstellt die Auswahl aller Felder eines Ergebnisses - bei gegenseitigen Verweisen wird
+ * ein Typ nur einmal berücksichtigt.
+ *
+ * @param type der GraphQL Typ des Ergebnisses.
+ * @param visited alle bereits berücksichtigten Typen.
+ */
+function toSelection(type: graphql.GraphQLOutputType, visited: Set<string> = new Set()): string {
+    const named = graphql.getNamedType(type)
+
+    if (!(named instanceof graphql.GraphQLObjectType)) {
+        return ''
+    }
+
+    const fields: string[] = []
+
+    visited = new Set(visited).add(named.name)
+
+    for (const field of Object.values(named.getFields())) {
+        const fieldType = graphql.getNamedType(field.type)
+
+        if (fieldType instanceof graphql.GraphQLObjectType) {
+            if (!visited.has(fieldType.name)) {
+                fields.push(`${field.name} ${toSelection(fieldType, visited)}`)
+            }
+        } else {
+            fields.push(field.name)
+        }
+    }
+
+    return `{ ${fields.length > 0 ? fields.join(' ') : '__typename'} }`
+}
+
+/**
+ * Erstellt die Schnittstelle für einen GraphQL Typ.
+ *
+ * @param type der GraphQL Typ.
+ */
+function toInterface(type: graphql.GraphQLObjectType | graphql.GraphQLInputObjectType): string[] {
+    const lines = [...toComment(type.description), `export interface ${type.name} {`]
+
+    for (const field of Object.values(type.getFields())) {
+        const optional = type instanceof graphql.GraphQLInputObjectType && !graphql.isNonNullType(field.type)
+
+        lines.push(
+            ...toComment(field.description, '    '),
+            `    ${field.name}${optional ? '?' : ''}: ${toTypeScript(field.type)}`
+        )
+    }
+
+    lines.push('}')
+
+    return lines
+}
+
+/**
+ * Erstellt eine TypeScript Datei für einen Client. Diese enthält die Schnittstellen für alle
+ * GraphQL Typen und je Such- und Änderungsoperation eine typisierte Methode zum Aufruf.
+ *
+ * @param collections alle zu verwendenden Arten von Entitäten in Form ihrer Zugriffsklassen.
+ */
+export async function generateClient(collections: {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    [qglName: string]: Promise<Collection<any, any, any, any>>
+}): Promise<string> {
+    const schema = new graphql.GraphQLSchema(await createSchemaConfiguration(collections))
+
+    /** Die Typen der obersten Ebene werden im Client nicht benötigt. */
+    const skip = new Set<string>()
+
+    for (const root of [schema.getQueryType(), schema.getMutationType(), schema.getSubscriptionType()]) {
+        if (root) {
+            skip.add(root.name)
+
+            Object.values(root.getFields()).forEach(
+                (f) => f.name in collections && skip.add(graphql.getNamedType(f.type).name)
+            )
+        }
+    }
+
+    const lines = [
+        '/* Automatisch erstellt - bitte nicht manuell verändern. */',
+        '',
+        '/** Führt eine GraphQL Operation aus und meldet das Ergebnis (data). */',
+        'export type TExecute = (query: string, variables: object) => Promise<unknown>',
+        '',
+        '/** Das Ergebnis einer Operation mit einer eigenen Auswahl von Feldern - alle Felder sind optional. */',
+        'export type TPartial<TValue> = TValue extends (infer TItem)[]',
+        '    ? TPartial<TItem>[]',
+        '    : TValue extends object',
+        '      ? { [TField in keyof TValue]?: TPartial<TValue[TField]> }',
+        '      : TValue',
+    ]
+
+    /** Alle GraphQL Typen in alphabetischer Reihenfolge. */
+    const typeMap = schema.getTypeMap()
+
+    for (const name of Object.keys(typeMap).sort()) {
+        const type = typeMap[name]
+
+        if (name.startsWith('__') || skip.has(name)) {
+            continue
+        }
+
+        lines.push('')
+
+        if (type instanceof graphql.GraphQLEnumType) {
+            const values = type.getValues().map((v) => `'${v.name}'`)
+
+            lines.push(...toComment(type.description), `export type ${name} = ${values.join(' | ') || 'never'}`)
+        } else if (type instanceof graphql.GraphQLObjectType || type instanceof graphql.GraphQLInputObjectType) {
+            lines.push(...toInterface(type))
+        } else {
+            lines.pop()
+        }
+    }
+
+    /** Die Parameter und Methoden zu allen Operationen. */
+    const client: string[] = []
+
+    for (const field of Object.keys(collections)) {
+        const collection = await collections[field]
+
+        client.push(`        ${field}: {`)
+
+        for (const [scope, manager] of [
+            ['query', collection.queries],
+            ['mutation', collection.mutations],
+        ] as const) {
+            const registrations = manager.registrations
+
+            for (const name of Object.keys(registrations)) {
+                const method = registrations[name]
+                const args = Object.keys(method.args || {})
+                const argsName = `${toPascal(field)}${toPascal(name)}Args`
+                const operation = `${toPascal(field)}${toPascal(name)}`
+
+                /** Die Parameter werden als eigene Schnittstelle erstellt. */
+                lines.push('', `export interface ${argsName} {`)
+
+                for (const arg of args) {
+                    const argType = method.args[arg].type
+
+                    lines.push(
+                        ...toComment(method.args[arg].description, '    '),
+                        `    ${arg}${graphql.isNonNullType(argType) ? '' : '?'}: ${toTypeScript(argType)}`
+                    )
+                }
+
+                lines.push('}')
+
+                /** Die Operation selbst mit einer Auswahl aller Felder des Ergebnisses. */
+                const variables = args.map((a) => `$${a}: ${method.args[a].type}`).join(', ')
+                const call = args.map((a) => `${a}: $${a}`).join(', ')
+                const selection = toSelection(method.type)
+
+                /** Die Auswahl wird erst beim Aufruf aus dem Parameter der Methode übernommen. */
+                const query = `${scope} ${operation}${variables && `(${variables})`} { ${field} { ${name}${call && `(${call})`}${selection && ` \${selection || '${selection}'}`} } }`
+                const required = args.some((a) => graphql.isNonNullType(method.args[a].type))
+                const parameters = `args: ${argsName}${required ? '' : ' = {}'}`
+
+                /** Mit einer eigenen Auswahl sind nicht mehr alle Felder des Ergebnisses garantiert. */
+                const result = selection
+                    ? `TSelection extends string ? TPartial<${toTypeScript(method.type)}> : ${toTypeScript(method.type)}`
+                    : toTypeScript(method.type)
+                const signature = selection
+                    ? `<TSelection extends string | undefined = undefined>(${parameters}, selection?: TSelection)`
+                    : `(${parameters})`
+
+                client.push(
+                    ...toComment(method.description, '            '),
+                    `            ${name}: async ${signature}: Promise<${result}> =>`,
+                    `                ((await execute(\`${query}\`, args)) as { ${field}: { ${name}: ${result} } }).${field}.${name},`
+                )
+            }
+        }
+
+        client.push('        },')
+    }
+
+    lines.push(
+        '',
+        '/**',
+        ' * Erstellt einen Client für alle Such- und Änderungsoperationen.',
+        ' *',
+        ' * @param execute führt eine GraphQL Operation aus.',
+        ' */',
+        '// eslint-disable-next-line @typescript-eslint/explicit-function-return-type',
+        'export function createClient(execute: TExecute) {',
+        '    return {',
+        ...client,
+        '    }',
+        '}',
+        ''
+    )
+
+    return lines.join('\n')
+}
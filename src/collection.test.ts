@@ -0,0 +1,213 @@
+import { deepStrictEqual, strictEqual } from 'node:assert'
+import { describe, it } from 'node:test'
+
+import { ExecutionResult, graphql, GraphQLSchema, parse, subscribe } from 'graphql'
+
+import { ICaller } from './authorization'
+import { Collection } from './collection'
+import { MemoryConnection } from './memory'
+import { createSchemaConfiguration } from './schema'
+import * as types from './types'
+
+/** Die Typdefinition der Entitäten im Test. */
+const Book = types.GqlObject(
+    'Book',
+    {
+        _id: types.GqlId({ computed: true }),
+        isbn: types.GqlString(),
+        title: types.GqlString({ sortable: true }),
+        year: types.GqlNullable(types.GqlInt()),
+    },
+    { history: true, naturalKey: ['isbn'], softDelete: { roles: ['admin'] }, versioned: true }
+)
+
+/** Die Anbindung der Entitäten im Test. */
+class BookCollection extends Collection<typeof Book> {
+    readonly collectionName = 'books'
+}
+
+/** Die Methode zum Ausführen von GraphQL Operationen - optional im Namen eines Aufrufers. */
+type TRunner = <TData>(
+    source: string,
+    caller?: ICaller
+) => Promise<{ code?: unknown; data?: TData; errors?: ExecutionResult['errors'] }>
+
+/** Die Felder einer Entität, die in den Tests abgerufen werden. */
+const fields = '_id _version title year'
+
+/** Eine Entität, wie sie in den Tests abgerufen wird. */
+interface IBook {
+    _id: string
+    _version: number
+    title: string
+    year: number | null
+}
+
+/**
+ * Legt die Anbindung an und erstellt eine Methode zum Ausführen von GraphQL Operationen. Der
+ * Aufrufer wird dabei direkt als GraphQL Kontext verwendet.
+ */
+async function createRunner(): Promise<{ run: TRunner; schema: GraphQLSchema }> {
+    const connection = new MemoryConnection()
+    const books = await connection.createCollection(Book, BookCollection)
+    const schema = new GraphQLSchema(
+        await createSchemaConfiguration({ books: Promise.resolve(books) }, { getCaller: (caller: ICaller) => caller })
+    )
+
+    const run: TRunner = async <TData>(source: string, caller: ICaller = {}) => {
+        const { data, errors } = await graphql({ contextValue: caller, schema, source })
+
+        return { code: errors?.[0].extensions.code, data: data as TData, errors }
+    }
+
+    return { run, schema }
+}
+
+/**
+ * Legt eine neue Entität an.
+ *
+ * @param run führt GraphQL Operationen aus.
+ * @param isbn der fachliche Schlüssel der Entität.
+ * @param title der Titel der Entität.
+ */
+async function addBook(run: TRunner, isbn: string, title: string): Promise<IBook> {
+    const added = await run<{ books: { add: IBook } }>(
+        `mutation { books { add(data: { isbn: "${isbn}", title: "${title}" }) { ${fields} } } }`
+    )
+
+    strictEqual(added.errors, undefined)
+
+    return added.data.books.add
+}
+
+describe('Collection', () => {
+    it('inserts and updates entities by their natural key', async () => {
+        const { run } = await createRunner()
+        const upsert = (data: string) =>
+            run<{ books: { upsert: IBook } }>(
+                `mutation { books { upsert(data: { isbn: "1", ${data} }) { ${fields} } } }`
+            )
+
+        const inserted = (await upsert('title: "A"')).data.books.upsert
+        const updated = (await upsert('year: 2000')).data.books.upsert
+
+        strictEqual(inserted._version, 1)
+        deepStrictEqual({ ...updated }, { ...inserted, _version: 2, year: 2000 })
+        strictEqual((await run('mutation { books { upsert(data: { title: "B" }) { _id } } }')).code, 'BAD_USER_INPUT')
+    })
+
+    it('rejects changes based on an outdated version', async () => {
+        const { run } = await createRunner()
+        const { _id } = await addBook(run, '1', 'A')
+        const update = (version: number, title: string) =>
+            run<{ books: { update: IBook } }>(
+                `mutation { books { update(_id: "${_id}", _version: ${version}, data: { title: "${title}" }) { ${fields} } } }`
+            )
+
+        strictEqual((await update(1, 'B')).data.books.update._version, 2)
+        strictEqual((await update(1, 'C')).code, 'CONFLICT')
+        strictEqual((await run(`mutation { books { delete(_id: "${_id}", _version: 1) { _id } } }`)).code, 'CONFLICT')
+
+        const found = await run<{ books: { findById: IBook } }>(`{ books { findById(_id: "${_id}") { ${fields} } } }`)
+
+        strictEqual(found.data.books.findById.title, 'B')
+    })
+
+    it('records all versions and reverts to an earlier one', async () => {
+        const { run } = await createRunner()
+        const { _id } = await addBook(run, '1', 'A')
+
+        await run(`mutation { books { update(_id: "${_id}", data: { title: "B" }) { _id } } }`)
+
+        const reverted = await run<{ books: { revert: IBook } }>(
+            `mutation { books { revert(_id: "${_id}", revision: 1) { ${fields} } } }`
+        )
+
+        strictEqual(reverted.data.books.revert.title, 'A')
+        strictEqual(reverted.data.books.revert._version, 3)
+
+        const history = await run<{ books: { history: { kind: string; revision: number; snapshot: IBook }[] } }>(
+            `{ books { history(_id: "${_id}") { kind revision snapshot { title } } } }`
+        )
+
+        deepStrictEqual(
+            history.data.books.history.map(({ kind, revision, snapshot }) => [kind, revision, snapshot.title]),
+            [
+                ['added', 1, 'A'],
+                ['updated', 2, 'B'],
+                ['updated', 3, 'A'],
+            ]
+        )
+        strictEqual((await run(`mutation { books { revert(_id: "${_id}", revision: 9) { _id } } }`)).code, 'NOT_FOUND')
+    })
+
+    it('hides removed entities until they are restored', async () => {
+        const { run } = await createRunner()
+        const admin = { roles: ['admin'] }
+        const { _id } = await addBook(run, '1', 'A')
+        const findById = (includeDeleted: boolean, caller?: ICaller) =>
+            run(`{ books { findById(_id: "${_id}", includeDeleted: ${includeDeleted}) { _id } } }`, caller)
+
+        await run(`mutation { books { delete(_id: "${_id}") { _id } } }`)
+
+        strictEqual((await findById(false)).errors?.length, 1)
+        strictEqual((await findById(true)).code, 'FORBIDDEN')
+        strictEqual((await findById(true, admin)).errors, undefined)
+        strictEqual((await run(`{ books { history(_id: "${_id}") { revision } } }`)).errors, undefined)
+        strictEqual(
+            (await run('mutation { books { upsert(data: { isbn: "1", title: "B" }) { _id } } }')).code,
+            'CONFLICT'
+        )
+        strictEqual((await run(`mutation { books { restore(_id: "${_id}") { _id } } }`)).code, 'FORBIDDEN')
+        strictEqual((await run(`mutation { books { restore(_id: "${_id}") { _id } } }`, admin)).errors, undefined)
+        strictEqual((await findById(false)).errors, undefined)
+    })
+
+    it('deletes purged entities together with all their versions', async () => {
+        const { run } = await createRunner()
+        const admin = { roles: ['admin'] }
+        const { _id } = await addBook(run, '1', 'A')
+
+        strictEqual((await run(`mutation { books { purge(_id: "${_id}") { _id } } }`, admin)).code, 'NOT_FOUND')
+
+        await run(`mutation { books { delete(_id: "${_id}") { _id } } }`)
+
+        strictEqual((await run(`mutation { books { purge(_id: "${_id}") { _id } } }`, admin)).errors, undefined)
+
+        const history = await run<{ books: { history: unknown[] } }>(
+            `{ books { history(_id: "${_id}", includeDeleted: true) { revision } } }`,
+            admin
+        )
+
+        deepStrictEqual(history.data.books.history, [])
+    })
+
+    it('reports matching changes to subscriptions', async () => {
+        const { run, schema } = await createRunner()
+        const subscription = (await subscribe({
+            contextValue: {},
+            document: parse('subscription { booksAdded(filter: { year: { Gt: 2000 } }) { title } }'),
+            schema,
+        })) as AsyncIterableIterator<ExecutionResult>
+
+        await run('mutation { books { add(data: { isbn: "1", title: "old", year: 1990 }) { _id } } }')
+        await run('mutation { books { add(data: { isbn: "2", title: "new", year: 2010 }) { _id } } }')
+
+        const { value } = await subscription.next()
+
+        strictEqual((value.data.booksAdded as IBook).title, 'new')
+
+        await subscription.return()
+    })
+
+    it('rejects subscriptions with an invalid filter', async () => {
+        const { schema } = await createRunner()
+        const result = (await subscribe({
+            contextValue: {},
+            document: parse('subscription { booksAdded(filter: { title: { RegEx: "(" } }) { title } }'),
+            schema,
+        })) as ExecutionResult
+
+        strictEqual(result.errors?.[0].extensions.code, 'BAD_USER_INPUT')
+    })
+})
@@ -1,22 +1,43 @@
+import { GraphQLError } from 'graphql'
 import * as mongodb from 'mongodb'
 import { v4 as uuid } from 'uuid'
 
-import { Connection } from './connection'
-import { createObjectFilter, toMongoFilter } from './filter'
-import { QueryManager, MutationManager } from './methods'
+import { getCaller, isAllowed, isFieldAllowed } from './authorization'
+import { BulkResult, runBulk } from './bulk'
+import { ChangeFeed, TChangeKind } from './changes'
+import { Connection, IDatabaseCollection } from './connection'
+import { createError } from './errors'
+import { createObjectFilter, createRequiredObjectFilter, toCountFilter, toMongoFilter } from './filter'
+import { GqlRevision, IRevision, revisionIndexes } from './history'
+import { applyIndexes, getIndexes, getTextWeights, IIndexReport } from './indexes'
+import { QueryManager, MutationManager, SubscriptionManager } from './methods'
+import { createCursor, createCursorFilter, GqlLazy, lazy, PageInfo } from './pagination'
+import { checkReferences, resolveReferenceFilter } from './reference'
 import * as types from './types'
 import { TSortDirection } from './enum'
+import { checkIncrements, createIncrementFilter, GqlUpdateOperations, IUpdateOperations, toMongoUpdate } from './update'
+import { validateAndThrow } from './validation'
 
-/** Basisklasse zur Implementierung einer Anbindung an eine MongoDb Datenbank. */
-export abstract class CollectionBase<TItem extends { _id: string }, TLayout> {
+/**
+ * Basisklasse zur Implementierung einer Anbindung an eine MongoDb Datenbank.
+ *
+ * Der GraphQL Kontext eines Aufrufs wird an alle Operationen und Eingriffe weitergereicht.
+ */
+export abstract class CollectionBase<TItem extends { _id: string }, TLayout, TContext = unknown> {
     /** Der Name der zugehörigen Collection (Tabelle). */
     abstract readonly collectionName: string
 
     /** Alle registrierten GraphQL Suchoperationen. */
-    readonly queries: QueryManager<TItem> = new QueryManager(this)
+    readonly queries: QueryManager<TItem, TContext> = new QueryManager(this)
 
     /** Alle registrierten GraphQL Änderungsoperationen. */
-    readonly mutations: MutationManager<TItem> = new MutationManager(this)
+    readonly mutations: MutationManager<TItem, TContext> = new MutationManager(this)
+
+    /** Alle registrierten GraphQL Überwachungen. */
+    readonly subscriptions: SubscriptionManager<TItem, TContext> = new SubscriptionManager(this)
+
+    /** Verteilt Veränderungen an den Entitäten an alle Überwachungen. */
+    readonly changes: ChangeFeed<TItem> = new ChangeFeed(() => this.collection, this.softDelete)
 
     /**
      * Initialisiert eine neue Anbindung.
@@ -36,18 +57,65 @@ export abstract class CollectionBase<TItem extends { _id: string }, TLayout> {
         return Promise.resolve<void>(undefined)
     }
 
+    /** Gesetzt, wenn Entitäten beim Entfernen nur als entfernt markiert werden. */
+    get softDelete(): boolean {
+        return !!this.model.objectOptions.softDelete
+    }
+
+    /** Die Rollen, die entfernte Entitäten sehen, wiederherstellen und endgültig löschen dürfen - ohne Angabe niemand. */
+    get softDeleteRoles(): string[] {
+        const softDelete = this.model.objectOptions.softDelete
+
+        return (typeof softDelete === 'object' && softDelete.roles) || []
+    }
+
     /** Ermittelt die zugehörige Collection (Tabelle). */
-    get collection(): Promise<mongodb.Collection<TItem>> {
+    get collection(): Promise<IDatabaseCollection<TItem>> {
         return this.connection.getCollection(this.collectionName)
     }
 
+    /** Alle Indexe in der Datenbank, die sich aus der Typdefinition ergeben - kann überladen werden. */
+    get indexes(): mongodb.IndexDescription[] {
+        return getIndexes(this.model)
+    }
+
+    /**
+     * Gleicht die Indexe in der Datenbank mit der Typdefinition ab und legt fehlende oder
+     * veränderte Indexe an. Überzählige Indexe werden nur gemeldet. Die Indexe der Versionen werden dabei mit
+     * dem Namen ihrer Collection (Tabelle) gemeldet.
+     *
+     * @param dryRun gesetzt, um die Abweichungen nur zu melden.
+     * @param recreate gesetzt, um Indexe mit veränderten Einstellungen neu anzulegen - ansonsten werden diese nur gemeldet.
+     */
+    async reconcileIndexes(dryRun = false, recreate = true): Promise<IIndexReport> {
+        const report = await applyIndexes(await this.collection, this.indexes, dryRun, recreate)
+
+        if (this.model.objectOptions.history) {
+            const history = await applyIndexes(await this.historyCollection, revisionIndexes, dryRun, recreate)
+            const prefix = `${this.collectionName}_history.`
+
+            report.changed.push(...history.changed.map((name) => `${prefix}${name}`))
+            report.extra.push(...history.extra.map((name) => `${prefix}${name}`))
+            report.missing.push(...history.missing.map((name) => `${prefix}${name}`))
+        }
+
+        return report
+    }
+
+    /** Ermittelt die Collection (Tabelle) mit allen Versionen der Entitäten. */
+    get historyCollection(): Promise<IDatabaseCollection<IRevision<TItem>>> {
+        return this.connection.getCollection(`${this.collectionName}_history`)
+    }
+
     /**
      * Kann Überladen werden um eine Entität aus der Datenbank als GraphQL Rückgabewert
      * aufzubereiten - etwa durch Ergänzen von berechneten Werten.
      *
      * @param item Eine Entität aus der Datenbank.
+     * @param context der GraphQL Kontext des Aufrufs.
      */
-    async toGraphQL(item: TItem): Promise<TItem> {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    async toGraphQL(item: TItem, context: TContext): Promise<TItem> {
         return item
     }
 
@@ -55,15 +123,30 @@ export abstract class CollectionBase<TItem extends { _id: string }, TLayout> {
      * Wird unmittelbar vor dem Einfügen einer neuen Entität in die Datenbank aufgerufen.
      *
      * @param item die neu einzufügende Entität.
+     * @param context der GraphQL Kontext des Aufrufs.
      */
-    beforeInsert?(item: TItem): Promise<void>
+    beforeInsert?(item: TItem, context: TContext): Promise<void>
 
     /**
-     * Wir unmittelbar nach dem Einfügen einer neuen Entität in die Datenbank aufgerufen.
+     * Wir unmittelbar nach dem Einfügen einer neuen Entität in die Datenbank aufgerufen - innerhalb
+     * einer Transaktion erst nach deren erfolgreichem Abschluss.
      *
      * @param item  die neu eingefügte Entität.
+     * @param context der GraphQL Kontext des Aufrufs.
      */
-    afterInsert?(item: TItem): Promise<void>
+    afterInsert?(item: TItem, context: TContext): Promise<void>
+
+    /** Bei der Versionsverwaltung kann beim Ändern und Entfernen die erwartete Version angegeben werden. */
+    private readonly _versionArg = this.model.objectOptions.versioned
+        ? types.GqlNullable(types.GqlInt({ description: 'Optional die erwartete Version der Entität.' }))
+        : undefined
+
+    /** Beim Entfernen ohne physikalisches Löschen können Suchen auch entfernte Entitäten berücksichtigen. */
+    private readonly _includeDeletedArg = this.softDelete
+        ? types.GqlNullable(
+              types.GqlBoolean({ description: 'Gesetzt, um auch entfernte Entitäten zu berücksichtigen.' })
+          )
+        : undefined
 
     /** Informationen zur Registrierung der Methode zum Anlegen einer neuen Entität. */
     readonly add = this.mutations.register(
@@ -71,128 +154,796 @@ export abstract class CollectionBase<TItem extends { _id: string }, TLayout> {
         { data: this.model },
         this.model,
         'Entität hinzufügen.',
-        async (args) => {
-            /** Eindeutige Kennung automatisch erstellen. */
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const added = { ...(args.data as any), _id: uuid() }
+        async (args, context) => this.toGraphQL(await this.insertItem(args.data, context), context)
+    )
 
-            /** Eingriff durch die abgeleitete Klasse erlauben. */
-            if (this.beforeInsert) {
-                await this.beforeInsert(added)
-            }
+    /** Informationen zur Registrierung der Methode zum Anlegen mehrerer neuer Entitäten. */
+    readonly addMany = this.mutations.register(
+        'addMany',
+        {
+            data: new types.GqlList<TItem[], 'object', TLayout>(
+                {
+                    description: 'Die neuen Entitäten - diese werden einzeln geprüft.',
+                    validation: { items: { type: 'object' }, type: 'array' },
+                },
+                this.model
+            ),
+        },
+        BulkResult,
+        'Mehrere Entitäten hinzufügen.',
+        (args, context) =>
+            runBulk(
+                args.data,
+                () => undefined,
+                async (item) => {
+                    validateAndThrow(item, this.model)
 
-            /** Neue Entität in der Datenbank anlegen. */
-            const self = await this.collection
+                    await this.insertItem(item, context)
+                },
+                this.connection.inTransaction
+            )
+    )
 
-            await self.insertOne(added)
+    /**
+     * Legt eine neue Entität in der Datenbank an.
+     *
+     * @param data die bereits geprüfte Entität.
+     * @param context der GraphQL Kontext des Aufrufs.
+     */
+    protected async insertItem(data: TItem, context: TContext): Promise<TItem> {
+        /** Alle Verweise müssen auf existierende Entitäten zeigen. */
+        await checkReferences(data, this.model)
 
-            /** Eingriff durch die abgeleitete Klasse erlauben. */
-            if (this.afterInsert) {
-                await this.afterInsert(added)
-            }
+        /** Eindeutige Kennung automatisch erstellen. */
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const added = { ...(data as any), _id: uuid() }
 
-            /** Neue Entität als GraphQL Ergebnis melden. */
-            return this.toGraphQL(added)
+        /** Bei Bedarf mit der Versionsverwaltung beginnen. */
+        if (this.model.objectOptions.versioned) {
+            added._version = 1
+        }
+
+        /** Bei Bedarf Zeitpunkt und Aufrufer vermerken. */
+        if (this.model.objectOptions.timestamps) {
+            const now = new Date()
+
+            Object.assign(
+                added,
+                await this.createTimestamps(context, 'created', now),
+                await this.createTimestamps(context, 'updated', now)
+            )
+        }
+
+        /** Eingriff durch die abgeleitete Klasse erlauben. */
+        if (this.beforeInsert) {
+            await this.beforeInsert(added, context)
         }
-    )
 
-    /** Wird vor der Aktualisierung einer Entität aufgerufen. */
-    beforeUpdate?(item: Partial<TItem>, _id: string): Promise<void>
+        /** Neue Entität in der Datenbank anlegen. */
+        const self = await this.collection
 
-    /** Wird nach der Aktualisierung einer Entität aufgerufen. */
-    afterUpdate?(item: TItem): Promise<void>
+        await self.insertOne(added)
+
+        /** Eingriff durch die abgeleitete Klasse erlauben. */
+        if (this.afterInsert) {
+            await this.connection.afterCommit(() => this.afterInsert(added, context))
+        }
+
+        await this.recordChange('added', added, context)
+
+        return added
+    }
+
+    /** Wird vor der Aktualisierung einer Entität aufgerufen - beim Wiederherstellen ohne veränderte Felder. */
+    beforeUpdate?(item: Partial<TItem>, _id: string, context: TContext): Promise<void>
+
+    /** Wird nach der Aktualisierung einer Entität aufgerufen - innerhalb einer Transaktion erst nach deren Abschluss. */
+    afterUpdate?(item: TItem, context: TContext): Promise<void>
 
     /** Informationen zur Registrierung der Methode zum Ändern einer vorhandenen Entität. */
-    readonly update = this.mutations.registerUpdate(
+    readonly update = this.mutations.register(
         'update',
-        { _id: types.GqlId(), data: this.model },
+        {
+            _id: types.GqlId(),
+            _version: this._versionArg,
+            data: types.GqlPartial(this.model),
+            operations: GqlUpdateOperations(this.model),
+        },
         this.model,
         'Entität aktualisieren.',
-        async (args) => {
-            /** Suche der betroffenen Entität vorbereiten. */
-            const filter = { _id: args._id } as mongodb.Filter<TItem>
+        async (args, context) =>
+            this.toGraphQL(
+                await this.updateItem(
+                    args._id,
+                    args.data,
+                    context,
+                    args.operations as IUpdateOperations,
+                    args._version
+                ),
+                context
+            )
+    )
 
-            /** Änderung vorbereiten. */
-            const item = { ...args.data }
+    /** Informationen zur Registrierung der Methode zum Ändern mehrerer vorhandener Entitäten. */
+    readonly updateMany = this.mutations.register(
+        'updateMany',
+        { data: types.GqlPartial(this.model), filter: createRequiredObjectFilter(this.model.graphQLType) },
+        BulkResult,
+        'Alle passenden Entitäten aktualisieren.',
+        async (args, context) =>
+            runBulk(
+                await this.findIds(args.filter, context),
+                (_id) => _id,
+                async (_id) => {
+                    await this.updateItem(_id, args.data, context)
+                },
+                this.connection.inTransaction
+            )
+    )
 
-            /** Eingriff durch die abgeleitete Klasse erlauben. */
-            if (this.beforeUpdate) {
-                await this.beforeUpdate(item, args._id)
+    /**
+     * Verändert eine existierende Entität in der Datenbank.
+     *
+     * @param _id die eindeutige Kennung der Entität.
+     * @param data die bereits geprüften Änderungen.
+     * @param context der GraphQL Kontext des Aufrufs.
+     * @param operations optional atomare Operationen auf einzelnen Feldern.
+     * @param version optional die erwartete Version der Entität.
+     */
+    protected async updateItem(
+        _id: string,
+        data: Partial<TItem>,
+        context: TContext,
+        operations?: IUpdateOperations,
+        version?: number
+    ): Promise<TItem> {
+        /** Alle Verweise müssen auf existierende Entitäten zeigen - auch die neuen Elemente von Feldern. */
+        await checkReferences(data, this.model)
+
+        for (const elements of [operations?.push, operations?.addToSet]) {
+            await checkReferences(elements, this.model)
+        }
+
+        /** Suche der betroffenen Entität vorbereiten - veränderte Zahlen müssen in ihren Grenzen bleiben. */
+        const layout = this.model.layout as types.IGqlObjectLayout
+        const filter = this.createItemFilter(_id, version)
+        const guard = createIncrementFilter(layout, operations)
+        const guarded = guard ? ({ $and: [filter, guard] } as mongodb.Filter<TItem>) : filter
+
+        /** Änderung vorbereiten. */
+        const item = { ...data }
+
+        /** Eingriff durch die abgeleitete Klasse erlauben. */
+        if (this.beforeUpdate) {
+            await this.beforeUpdate(item, _id, context)
+        }
+
+        /** Änderung durchführen. */
+        const self = await this.collection
+        const update = toMongoUpdate(item, operations)
+
+        if (Object.keys(update).length > 0) {
+            /** Mit jeder Änderung wird die Version erhöht. */
+            if (this.model.objectOptions.versioned) {
+                update.$inc = { ...update.$inc, _version: 1 }
+            }
+
+            /** Bei Bedarf Zeitpunkt und Aufrufer vermerken. */
+            if (this.model.objectOptions.timestamps) {
+                update.$set = { ...update.$set, ...(await this.createTimestamps(context, 'updated')) }
             }
+        }
+
+        const updated =
+            Object.keys(update).length > 0
+                ? await self.findOneAndUpdate(guarded, update, { returnDocument: 'after' })
+                : await self.findOne(filter)
+
+        if (!updated) {
+            const errors = guard ? checkIncrements((await self.findOne(filter)) || {}, layout, operations) : []
+
+            if (errors.length > 0) {
+                throw createError('BAD_USER_INPUT', 'bad item', { fields: errors })
+            }
+
+            throw await this.createMissingError(_id, version)
+        }
+
+        /** Eingriff durch die abgeleitete Klasse erlauben. */
+        if (this.afterUpdate) {
+            await this.connection.afterCommit(() => this.afterUpdate(updated as TItem, context))
+        }
+
+        await this.recordChange('updated', updated as TItem, context)
+
+        return updated as TItem
+    }
+
+    /** Informationen zur Registrierung der Methode zum Anlegen oder Ändern einer Entität über die fachlichen Schlüssel. */
+    readonly upsert =
+        this.model.objectOptions.naturalKey &&
+        this.mutations.register(
+            'upsert',
+            { data: types.GqlPartial(this.model) },
+            this.model,
+            'Entität anlegen oder über die fachlichen Schlüssel aktualisieren.',
+            async (args, context) => this.toGraphQL(await this.upsertItem(args.data, context), context)
+        )
+
+    /**
+     * Legt eine Entität an oder verändert eine existierende Entität mit denselben fachlichen Schlüsseln.
+     *
+     * @param data die bereits für eine Änderung geprüfte Entität.
+     * @param context der GraphQL Kontext des Aufrufs.
+     */
+    protected async upsertItem(data: Partial<TItem>, context: TContext): Promise<TItem> {
+        /** Alle fachlichen Schlüssel müssen angegeben werden. */
+        const naturalKey = this.model.objectOptions.naturalKey
+        const values = data as Record<string, unknown>
+        const missing = naturalKey.filter((field) => values[field] === undefined || values[field] === null)
+
+        if (missing.length > 0) {
+            throw createError('BAD_USER_INPUT', 'bad item', {
+                fields: missing.map((field) => ({
+                    field,
+                    message: `The '${field}' field is required.`,
+                    type: 'required',
+                })),
+            })
+        }
+
+        const key: Record<string, unknown> = {}
+
+        for (const field of naturalKey) {
+            key[field] = values[field]
+        }
 
-            /** Änderung durchführen. */
+        /** Entfernte Entitäten werden nicht verändert, ihr fachlicher Schlüssel bleibt aber bis zum endgültigen Löschen belegt. */
+        if (this.softDelete) {
             const self = await this.collection
 
-            const updated =
-                Object.keys(args.data).length > 0
-                    ? await self.findOneAndUpdate(filter, { $set: item as any }, { returnDocument: 'after' })
-                    : await self.findOne(filter)
+            if (await self.findOne({ ...key, _deletedAt: { $ne: null } } as mongodb.Filter<TItem>)) {
+                throw createError('CONFLICT', 'item has been removed', { key })
+            }
+        }
+
+        const filter = (this.softDelete ? { ...key, _deletedAt: null } : key) as mongodb.Filter<TItem>
+
+        /** Bei gleichzeitigen Veränderungen wird neu entschieden, ob die Entität angelegt oder verändert wird. */
+        for (let attempt = 0; attempt < 3; attempt++) {
+            const upserted = await this._tryUpsertItem(data, filter, context)
+
+            if (upserted) {
+                return upserted
+            }
+        }
+
+        throw createError('CONFLICT', 'item has been changed', { key })
+    }
+
+    /**
+     * Legt eine Entität an oder verändert eine existierende Entität - ändert sich zwischen der
+     * Suche und der Veränderung die Existenz der Entität, wird nichts verändert.
+     *
+     * @param data die bereits für eine Änderung geprüfte Entität.
+     * @param filter die Suchbedingung über die fachlichen Schlüssel.
+     * @param context der GraphQL Kontext des Aufrufs.
+     */
+    private async _tryUpsertItem(
+        data: Partial<TItem>,
+        filter: mongodb.Filter<TItem>,
+        context: TContext
+    ): Promise<TItem | undefined> {
+        /** Beim Anlegen muss die Entität vollständig sein. */
+        const self = await this.collection
+        const existing = (await self.findOne(filter)) as TItem
+
+        if (!existing) {
+            validateAndThrow(data, this.model)
+        }
+
+        /** Alle Verweise müssen auf existierende Entitäten zeigen. */
+        await checkReferences(data, this.model)
+
+        /** Eingriff durch die abgeleitete Klasse erlauben - die eindeutige Kennung wird nur beim Anlegen erstellt. */
+        const _id = existing ? existing._id : uuid()
+        const item = { ...data }
+
+        if (existing) {
+            if (this.beforeUpdate) {
+                await this.beforeUpdate(item, _id, context)
+            }
+        } else if (this.beforeInsert) {
+            await this.beforeInsert(Object.assign(item, { _id }) as TItem, context)
+        }
+
+        delete item._id
+
+        if (existing) {
+            /** Wurde die Entität in der Zwischenzeit entfernt, muss sie neu angelegt werden. */
+            const updated = await self.findOneAndUpdate(
+                { ...filter, _id } as mongodb.Filter<TItem>,
+                {
+                    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                    $set: { ...item, ...(await this.createTimestamps(context, 'updated')) } as any,
+                    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                    ...(this.model.objectOptions.versioned && { $inc: { _version: 1 } as any }),
+                },
+                { returnDocument: 'after' }
+            )
 
             if (!updated) {
-                throw new Error('item not found')
+                return undefined
             }
 
             /** Eingriff durch die abgeleitete Klasse erlauben. */
             if (this.afterUpdate) {
-                await this.afterUpdate(updated as TItem)
+                await this.connection.afterCommit(() => this.afterUpdate(updated as TItem, context))
             }
 
-            /** Veränderte Entität als GraphQL Ergebnis melden. */
-            return this.toGraphQL(updated as TItem)
+            await this.recordChange('updated', updated as TItem, context)
+
+            return updated as TItem
         }
-    )
 
-    /** Wird unmittelbar vor dem Löschen einer Entität aufgerufen. */
-    beforeRemove?(_id: string): Promise<void>
+        const now = new Date()
+
+        /** Wurde die Entität in der Zwischenzeit angelegt, bleibt sie unverändert und wird im nächsten Versuch verändert. */
+        const result = await self.findOneAndUpdate(
+            filter,
+            {
+                $setOnInsert: {
+                    ...item,
+                    _id,
+                    ...(this.model.objectOptions.versioned && { _version: 1 }),
+                    ...(await this.createTimestamps(context, 'created', now)),
+                    ...(await this.createTimestamps(context, 'updated', now)),
+                } as mongodb.MatchKeysAndValues<TItem>,
+            },
+            { includeResultMetadata: true, returnDocument: 'after', upsert: true }
+        )
 
-    /** Wird unmittelbar nach dem erfolgreichen Löschen einer Entität aufgerufen. */
-    afterRemove?(item: TItem): Promise<void>
+        if (result.lastErrorObject?.updatedExisting) {
+            return undefined
+        }
+
+        const inserted = result.value as TItem
+
+        /** Eingriff durch die abgeleitete Klasse erlauben. */
+        if (this.afterInsert) {
+            await this.connection.afterCommit(() => this.afterInsert(inserted, context))
+        }
+
+        await this.recordChange('added', inserted, context)
+
+        return inserted
+    }
+
+    /** Wird unmittelbar vor dem Löschen einer Entität aufgerufen - beim endgültigen Löschen einer entfernten Entität erneut. */
+    beforeRemove?(_id: string, context: TContext): Promise<void>
+
+    /**
+     * Wird nach dem erfolgreichen Löschen einer Entität aufgerufen - innerhalb einer Transaktion erst nach deren Abschluss.
+     * Beim endgültigen Löschen einer entfernten Entität erfolgt der Aufruf erneut, dann mit gesetztem _deletedAt.
+     */
+    afterRemove?(item: TItem, context: TContext): Promise<void>
 
     /** Informationen zur Registrierung der Methode zum Entfernen einer Entitäten, */
     readonly remove = this.mutations.register(
         'delete',
-        { _id: types.GqlId() },
+        { _id: types.GqlId(), _version: this._versionArg },
         this.model,
         'Entität entfernen.',
-        async (args) => {
-            /** Eingriff durch die abgeleitete Klasse erlauben. */
-            if (this.beforeRemove) {
-                await this.beforeRemove(args._id)
-            }
+        async (args, context) => this.toGraphQL(await this.removeItem(args._id, context, args._version), context)
+    )
+
+    /** Informationen zur Registrierung der Methode zum Entfernen mehrerer Entitäten. */
+    readonly removeMany = this.mutations.register(
+        'removeMany',
+        { filter: createRequiredObjectFilter(this.model.graphQLType) },
+        BulkResult,
+        'Alle passenden Entitäten entfernen.',
+        async (args, context) =>
+            runBulk(
+                await this.findIds(args.filter, context),
+                (_id) => _id,
+                async (_id) => {
+                    await this.removeItem(_id, context)
+                },
+                this.connection.inTransaction
+            )
+    )
+
+    /**
+     * Entfernt eine Entität aus der Datenbank.
+     *
+     * @param _id die eindeutige Kennung der Entität.
+     * @param context der GraphQL Kontext des Aufrufs.
+     * @param version optional die erwartete Version der Entität.
+     */
+    protected async removeItem(_id: string, context: TContext, version?: number): Promise<TItem> {
+        /** Eingriff durch die abgeleitete Klasse erlauben. */
+        if (this.beforeRemove) {
+            await this.beforeRemove(_id, context)
+        }
+
+        /** Löschoperation in der Datenbank durchführen. */
+        const self = await this.collection
+
+        const filter = this.createItemFilter(_id, version)
+
+        const deleted = this.softDelete
+            ? await self.findOneAndUpdate(
+                  filter,
+                  {
+                      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                      $set: { _deletedAt: new Date(), ...(await this.createTimestamps(context, 'updated')) } as any,
+                      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                      ...(this.model.objectOptions.versioned && { $inc: { _version: 1 } as any }),
+                  },
+                  { returnDocument: 'after' }
+              )
+            : await self.findOneAndDelete(filter)
+
+        if (!deleted) {
+            throw await this.createMissingError(_id, version)
+        }
+
+        /** Eingriff durch die abgeleitete Klasse erlauben. */
+        if (this.afterRemove) {
+            await this.connection.afterCommit(() => this.afterRemove(deleted as TItem, context))
+        }
+
+        await this.recordChange('removed', deleted as TItem, context)
+
+        return deleted as TItem
+    }
+
+    /** Informationen zur Registrierung der Methode zum Wiederherstellen einer entfernten Entität. */
+    readonly restore =
+        this.softDelete &&
+        this.mutations.register(
+            'restore',
+            { _id: types.GqlId() },
+            this.model,
+            'Entfernte Entität wiederherstellen.',
+            async (args, context) => this.toGraphQL(await this.restoreItem(args._id, context), context),
+            { guard: (caller) => isAllowed(caller, this.softDeleteRoles) }
+        )
+
+    /**
+     * Stellt eine entfernte Entität wieder her.
+     *
+     * @param _id die eindeutige Kennung der Entität.
+     * @param context der GraphQL Kontext des Aufrufs.
+     */
+    protected async restoreItem(_id: string, context: TContext): Promise<TItem> {
+        /** Eingriff durch die abgeleitete Klasse erlauben. */
+        if (this.beforeUpdate) {
+            await this.beforeUpdate({}, _id, context)
+        }
 
-            /** Löschoperation in der Datenbank durchführen. */
+        const self = await this.collection
+
+        const restored = await self.findOneAndUpdate(
+            { _deletedAt: { $ne: null }, _id } as mongodb.Filter<TItem>,
+            {
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                $unset: { _deletedAt: '' } as any,
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                ...(this.model.objectOptions.timestamps && {
+                    $set: (await this.createTimestamps(context, 'updated')) as any,
+                }),
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                ...(this.model.objectOptions.versioned && { $inc: { _version: 1 } as any }),
+            },
+            { returnDocument: 'after' }
+        )
+
+        if (!restored) {
+            throw createError('NOT_FOUND', 'item not found', { _id })
+        }
+
+        /** Eingriff durch die abgeleitete Klasse erlauben. */
+        if (this.afterUpdate) {
+            await this.connection.afterCommit(() => this.afterUpdate(restored as TItem, context))
+        }
+
+        await this.recordChange('updated', restored as TItem, context)
+
+        return restored as TItem
+    }
+
+    /** Informationen zur Registrierung der Methode zum endgültigen Löschen einer entfernten Entität. */
+    readonly purge =
+        this.softDelete &&
+        this.mutations.register(
+            'purge',
+            { _id: types.GqlId() },
+            this.model,
+            'Entfernte Entität endgültig löschen.',
+            async (args, context) => this.toGraphQL(await this.purgeItem(args._id, context), context),
+            { guard: (caller) => isAllowed(caller, this.softDeleteRoles) }
+        )
+
+    /**
+     * Löscht eine entfernte Entität samt aller ihrer Versionen endgültig aus der Datenbank. Das Entfernen
+     * wurde bereits beim Markieren gemeldet und vermerkt - wie beim Change Stream gibt es daher weder eine
+     * weitere Meldung noch eine neue Version.
+     *
+     * @param _id die eindeutige Kennung der Entität.
+     * @param context der GraphQL Kontext des Aufrufs.
+     */
+    protected async purgeItem(_id: string, context: TContext): Promise<TItem> {
+        /** Eingriff durch die abgeleitete Klasse erlauben. */
+        if (this.beforeRemove) {
+            await this.beforeRemove(_id, context)
+        }
+
+        const self = await this.collection
+
+        const purged = await self.findOneAndDelete({ _deletedAt: { $ne: null }, _id } as mongodb.Filter<TItem>)
+
+        if (!purged) {
+            throw createError('NOT_FOUND', 'item not found', { _id })
+        }
+
+        /** Mit der Entität werden auch alle ihre Versionen endgültig gelöscht. */
+        if (this.model.objectOptions.history) {
+            const history = await this.historyCollection
+
+            await history.deleteMany({ item: _id })
+        }
+
+        /** Eingriff durch die abgeleitete Klasse erlauben. */
+        if (this.afterRemove) {
+            await this.connection.afterCommit(() => this.afterRemove(purged as TItem, context))
+        }
+
+        return purged as TItem
+    }
+
+    /**
+     * Ermittelt die automatisch gepflegten Zeitstempel zu einer Veränderung - der Aufrufer
+     * wird nur vermerkt, wenn er bekannt ist.
+     *
+     * @param context der GraphQL Kontext des Aufrufs.
+     * @param kind die Art der Zeitstempel.
+     * @param now der zu vermerkende Zeitpunkt - damit Anlage und Änderung einer neuen Entität übereinstimmen.
+     */
+    protected async createTimestamps(
+        context: TContext,
+        kind: 'created' | 'updated',
+        now = new Date()
+    ): Promise<Record<string, unknown>> {
+        if (!this.model.objectOptions.timestamps) {
+            return {}
+        }
+
+        const caller = await getCaller(context)
+
+        return { [`${kind}At`]: now, [`${kind}By`]: caller?.id || null }
+    }
+
+    /**
+     * Erstellt die Suchbedingung für eine einzelne Entität - entfernte Entitäten werden dabei nicht berücksichtigt.
+     *
+     * @param _id die eindeutige Kennung der Entität.
+     * @param version optional die erwartete Version der Entität.
+     */
+    protected createItemFilter(_id: string, version?: number): mongodb.Filter<TItem> {
+        const filter: Record<string, unknown> = { _id }
+
+        if (typeof version === 'number') {
+            filter._version = version
+        }
+
+        if (this.softDelete) {
+            filter._deletedAt = null
+        }
+
+        return filter as mongodb.Filter<TItem>
+    }
+
+    /**
+     * Prüft, ob eine Suche auch entfernte Entitäten berücksichtigen soll - dies ist nur mit den
+     * entsprechenden Rechten erlaubt.
+     *
+     * @param includeDeleted gesetzt, wenn auch entfernte Entitäten gewünscht sind.
+     * @param context der GraphQL Kontext des Aufrufs.
+     */
+    protected async checkIncludeDeleted(includeDeleted: boolean | undefined, context: TContext): Promise<boolean> {
+        if (!includeDeleted) {
+            return false
+        }
+
+        if (!isAllowed((await getCaller(context)) || {}, this.softDeleteRoles)) {
+            throw createError('FORBIDDEN', 'operation not allowed')
+        }
+
+        return true
+    }
+
+    /**
+     * Erstellt den Fehler für eine Entität, die nicht verändert werden konnte - entweder
+     * existiert sie nicht oder sie wurde in der Zwischenzeit verändert.
+     *
+     * @param _id die eindeutige Kennung der Entität.
+     * @param version optional die erwartete Version der Entität.
+     */
+    protected async createMissingError(_id: string, version?: number): Promise<GraphQLError> {
+        if (typeof version === 'number') {
             const self = await this.collection
+            const current = (await self.findOne(this.createItemFilter(_id))) as { _version?: number }
 
-            const deleted = await self.findOneAndDelete({ _id: args._id } as mongodb.Filter<TItem>)
+            if (current) {
+                return createError('CONFLICT', 'item has been changed', { _id, version: current._version })
+            }
+        }
 
-            if (!deleted) {
-                throw new Error('item not found')
+        return createError('NOT_FOUND', 'item not found', { _id })
+    }
+
+    /**
+     * Ermittelt die eindeutigen Kennungen aller Entitäten zu einem GraphQL Filter - ein Filter
+     * ohne jede Einschränkung ist dabei nicht erlaubt.
+     *
+     * @param gqlFilter der GraphQL Filter.
+     * @param context der GraphQL Kontext des Aufrufs.
+     */
+    protected async findIds(gqlFilter: unknown, context: TContext): Promise<string[]> {
+        if (Object.keys(toMongoFilter(gqlFilter)).length < 1) {
+            throw createError('BAD_USER_INPUT', 'filter must not be empty')
+        }
+
+        const self = await this.collection
+
+        return (await self.distinct('_id', toCountFilter(await this.createFilter(gqlFilter, context)))) as string[]
+    }
+
+    /**
+     * Meldet eine Veränderung an einer Entität an alle Überwachungen und vermerkt bei Bedarf
+     * eine neue Version - innerhalb einer Transaktion erfolgt die Meldung erst nach deren Abschluss.
+     *
+     * @param kind die Art der Veränderung.
+     * @param item die Entität nach der Veränderung.
+     * @param context der GraphQL Kontext des Aufrufs.
+     */
+    protected async recordChange(kind: TChangeKind, item: TItem, context: TContext): Promise<void> {
+        if (this.model.objectOptions.history) {
+            const history = await this.historyCollection
+            const caller = await getCaller(context)
+
+            /** Bei gleichzeitigen Veränderungen verhindert der eindeutige Index, dass eine Version doppelt vergeben wird. */
+            for (let attempt = 0; ; attempt++) {
+                const [latest] = await history.find({ item: item._id }).sort({ revision: -1 }).limit(1).toArray()
+
+                try {
+                    await history.insertOne({
+                        _id: uuid(),
+                        changedBy: caller?.id || null,
+                        item: item._id,
+                        kind,
+                        revision: (latest?.revision || 0) + 1,
+                        snapshot: item,
+                        timestamp: new Date(),
+                    })
+
+                    break
+                } catch (error) {
+                    if (attempt >= 2 || !(error instanceof mongodb.MongoServerError) || error.code !== 11000) {
+                        throw error
+                    }
+                }
             }
+        }
 
-            /** Eingriff durch die abgeleitete Klasse erlauben. */
-            if (this.afterRemove) {
-                await this.afterRemove(deleted as TItem)
+        await this.connection.afterCommit(() => this.changes.notify(kind, item))
+    }
+
+    /** Informationen zur Registrierung der Methode zum Abrufen aller Versionen einer Entität. */
+    readonly history =
+        this.model.objectOptions.history &&
+        this.queries.register(
+            'history',
+            { _id: types.GqlId(), includeDeleted: this._includeDeletedArg },
+            types.GqlArray(GqlRevision(this.model)),
+            'Alle Versionen einer Entität.',
+            async (args, context) => {
+                /** Die Versionen sind nur für Entitäten abrufbar, die auch selbst abgerufen werden dürfen. */
+                const self = await this.collection
+
+                const item = await self.findOne(
+                    (await this.checkIncludeDeleted(args.includeDeleted, context))
+                        ? ({ _id: args._id } as mongodb.Filter<TItem>)
+                        : this.createItemFilter(args._id)
+                )
+
+                if (!item) {
+                    return []
+                }
+
+                const history = await this.historyCollection
+
+                const revisions = await history.find({ item: args._id }).sort({ revision: 1 }).toArray()
+
+                return Promise.all(
+                    revisions.map(async (r) => ({ ...r, snapshot: await this.toGraphQL(r.snapshot as TItem, context) }))
+                )
             }
+        )
+
+    /** Informationen zur Registrierung der Methode zum Wiederherstellen einer früheren Version. */
+    readonly revert =
+        this.model.objectOptions.history &&
+        this.mutations.register(
+            'revert',
+            { _id: types.GqlId(), revision: types.GqlInt({ description: 'Die gewünschte Version.' }) },
+            this.model,
+            'Frühere Version einer Entität wiederherstellen.',
+            async (args, context) => this.toGraphQL(await this.revertItem(args._id, args.revision, context), context)
+        )
+
+    /**
+     * Stellt eine frühere Version einer Entität wieder her - die Veränderung wird dabei wie
+     * jede andere Aktualisierung geprüft.
+     *
+     * @param _id die eindeutige Kennung der Entität.
+     * @param revision die gewünschte Version.
+     * @param context der GraphQL Kontext des Aufrufs.
+     */
+    protected async revertItem(_id: string, revision: number, context: TContext): Promise<TItem> {
+        const history = await this.historyCollection
 
-            /** Entfernte Entität als GraphQL Ergebnis melden. */
-            return this.toGraphQL(deleted as TItem)
+        const found = await history.findOne({ item: _id, revision })
+
+        if (!found) {
+            throw createError('NOT_FOUND', 'revision not found', { _id, revision })
         }
-    )
+
+        /** Nur die veränderbaren Felder werden übernommen, fehlende optionale Felder werden entfernt. */
+        const layout = this.model.layout as types.IGqlObjectLayout
+        const snapshot = found.snapshot as Record<string, unknown>
+        const data: Record<string, unknown> = {}
+        const unset: string[] = []
+
+        for (const field of Object.keys(layout)) {
+            const gql = layout[field]
+
+            if (!gql || gql.options.computed) {
+                continue
+            }
+
+            if (snapshot[field] !== undefined) {
+                data[field] = snapshot[field]
+            } else if (gql.options.validation?.optional) {
+                unset.push(field)
+            }
+        }
+
+        validateAndThrow(data as Partial<TItem>, this.model, true)
+
+        return this.updateItem(_id, data as Partial<TItem>, context, { unset })
+    }
 
     /** Informationen zur Registrierung der Methode zum Nachschlagen einer existierenden Entitäten, */
     readonly findOne = this.queries.register(
         'findById',
-        { _id: types.GqlId() },
+        { _id: types.GqlId(), includeDeleted: this._includeDeletedArg },
         this.model,
         'Einzelne Entität suchen.',
-        async (args) => {
+        async (args, context) => {
             /** In der Datenbank nachschlagen. */
             const self = await this.collection
 
-            const item = await self.findOne({ _id: args._id } as mongodb.Filter<TItem>)
+            const item = await self.findOne(
+                (await this.checkIncludeDeleted(args.includeDeleted, context))
+                    ? ({ _id: args._id } as mongodb.Filter<TItem>)
+                    : this.createItemFilter(args._id)
+            )
 
             /** Entität als GraphQL Ergebnis melden. */
-            return item && this.toGraphQL(item as TItem)
+            return item && this.toGraphQL(item as TItem, context)
         }
     )
 
@@ -201,6 +952,7 @@ export abstract class CollectionBase<TItem extends { _id: string }, TLayout> {
         'find',
         {
             filter: types.GqlNullable(createObjectFilter(this.model.graphQLType)),
+            includeDeleted: this._includeDeletedArg,
             page: types.GqlNullable(
                 types.GqlInt({
                     description: 'Erste Seite im Ergebnisfenster.',
@@ -217,37 +969,343 @@ export abstract class CollectionBase<TItem extends { _id: string }, TLayout> {
         },
         types.GqlObject(`Find${this.model.graphQLType.name}Result`, {
             items: types.GqlArray(this.model, { description: 'Alle Entitäten im angeforderten Ergebnisfenster.' }),
+            page: types.GqlInt({ description: 'Die angezeigte Seite im Ergebnisfenster.' }),
+            pageCount: GqlLazy(types.GqlInt({ description: 'Die Anzahl der Seiten im Ergebnisfenster.' })),
+            pageSize: types.GqlInt({ description: 'Die Größe des Ergebnisfensters.' }),
+            totalCount: GqlLazy(types.GqlInt({ description: 'Die Gesamtzahl aller passenden Entitäten.' })),
         }),
         'Freie Suche.',
-        async (args) => {
+        async (args, context) => {
             /** Ergebnisfenster ermitteln. */
             const pageSize = args.pageSize || 100
-            const pageOffset = (args.page || 1) - 1
+            const page = args.page || 1
+
+            /** Suche durchführen. */
+            const self = await this.collection
+            const filter = await this.createFilter(
+                args.filter,
+                context,
+                await this.checkIncludeDeleted(args.includeDeleted, context)
+            )
 
-            /** Sortierung auswerden. */
-            const sort: Record<string, 1 | -1> = {}
+            await this.checkSortAccess(args.sort, context)
 
-            for (const sortField of args.sort || []) {
-                sort[sortField.field] = sortField.direction === TSortDirection.Ascending ? 1 : -1
+            const items = await self
+                .find(filter)
+                .sort(this.createSort(args.sort))
+                .skip((page - 1) * pageSize)
+                .limit(pageSize)
+                .toArray()
+
+            /** Die Gesamtzahl wird nur bei Bedarf und dann auch nur einmal ermittelt. */
+            let total: Promise<number>
+
+            const totalCount = () => (total = total || self.countDocuments(toCountFilter(filter)))
+
+            /** Entitäten als GraphQL Ergebnis melden. */
+            return {
+                items: await Promise.all(items.map(async (i) => await this.toGraphQL(i as TItem, context))),
+                page,
+                pageCount: lazy(async () => Math.ceil((await totalCount()) / pageSize)),
+                pageSize,
+                totalCount: lazy(totalCount),
+            }
+        }
+    )
+
+    /** Informationen zur Registrierung der Methode zum seitenweisen Blättern durch Entitäten. */
+    readonly findConnection = this.queries.register(
+        'findConnection',
+        {
+            after: types.GqlNullable(types.GqlString({ description: 'Entitäten nach dieser Position.' })),
+            before: types.GqlNullable(types.GqlString({ description: 'Entitäten vor dieser Position.' })),
+            filter: types.GqlNullable(createObjectFilter(this.model.graphQLType)),
+            first: types.GqlNullable(
+                types.GqlInt({
+                    description: 'Anzahl der Entitäten ab dem Anfang des Ergebnisfensters.',
+                    validation: { max: 1000, min: 1 },
+                })
+            ),
+            includeDeleted: this._includeDeletedArg,
+            last: types.GqlNullable(
+                types.GqlInt({
+                    description: 'Anzahl der Entitäten vor dem Ende des Ergebnisfensters.',
+                    validation: { max: 1000, min: 1 },
+                })
+            ),
+            sort: types.GqlNullable(types.GqlSort(this.model)),
+        },
+        types.GqlObject(`${this.model.graphQLType.name}Connection`, {
+            edges: types.GqlArray(
+                types.GqlObject(`${this.model.graphQLType.name}Edge`, {
+                    cursor: types.GqlString({ description: 'Position der Entität.' }),
+                    node: this.model,
+                }),
+                { description: 'Alle Entitäten im angeforderten Ergebnisfenster.' }
+            ),
+            pageInfo: PageInfo,
+        }),
+        'Seitenweises Blättern.',
+        async (args, context) => {
+            if (args.first && args.last) {
+                throw createError('BAD_USER_INPUT', 'first and last can not be used together')
             }
 
-            /** Stabile Sortierung auf unterester Ebene erzwingen. */
-            sort._id = 1
+            /** Beim Blättern rückwärts wird die Sortierung umgedreht. */
+            const backward = !!args.last
 
-            /** Suche durchführen. */
+            await this.checkSortAccess(args.sort, context)
+            const count = args.first || args.last || 100
+            const forward = this.createSort(args.sort)
+            const reverse = this.createSort(args.sort, TSortDirection.Descending)
+            const sort = backward ? reverse : forward
+
+            /** Das Ergebnisfenster auf die angeforderten Positionen einschränken. */
+            const filters = [
+                await this.createFilter(
+                    args.filter,
+                    context,
+                    await this.checkIncludeDeleted(args.includeDeleted, context)
+                ),
+            ]
+
+            if (args.after) {
+                filters.push(createCursorFilter(args.after, forward))
+            }
+
+            if (args.before) {
+                filters.push(createCursorFilter(args.before, reverse))
+            }
+
+            /** Suche durchführen - mit einer zusätzlichen Entität lässt sich erkennen, ob es weiter geht. */
             const self = await this.collection
 
-            const items = await self
-                .find(toMongoFilter(args.filter))
+            const items = (await self
+                .find(filters.length > 1 ? { $and: filters } : filters[0])
                 .sort(sort)
-                .skip(pageOffset * pageSize)
-                .limit(pageSize)
-                .toArray()
+                .limit(count + 1)
+                .toArray()) as TItem[]
+
+            const hasMore = items.length > count
+
+            if (hasMore) {
+                items.pop()
+            }
+
+            /** Auf die ursprüngliche Sortierung zurückstellen. */
+            if (backward) {
+                items.reverse()
+            }
 
             /** Entitäten als GraphQL Ergebnis melden. */
-            return { items: await Promise.all(items.map(async (i) => await this.toGraphQL(i as TItem))) }
+            const edges = await Promise.all(
+                items.map(async (i) => ({ cursor: createCursor(i, forward), node: await this.toGraphQL(i, context) }))
+            )
+
+            return {
+                edges,
+                pageInfo: {
+                    endCursor: edges.length > 0 ? edges[edges.length - 1].cursor : null,
+                    hasNextPage: backward ? !!args.before : hasMore,
+                    hasPreviousPage: backward ? hasMore : !!args.after,
+                    startCursor: edges.length > 0 ? edges[0].cursor : null,
+                },
+            }
         }
     )
+
+    /** Informationen zur Registrierung der Methode zur Volltextsuche. */
+    readonly search =
+        Object.keys(getTextWeights(this.model)).length > 0 &&
+        this.queries.register(
+            'search',
+            {
+                filter: types.GqlNullable(createObjectFilter(this.model.graphQLType)),
+                includeDeleted: this._includeDeletedArg,
+                language: types.GqlNullable(
+                    types.GqlString({ description: 'Optional die Sprache des Suchtextes, etwa german.' })
+                ),
+                page: types.GqlNullable(
+                    types.GqlInt({
+                        description: 'Erste Seite im Ergebnisfenster.',
+                        validation: { min: 1 },
+                    })
+                ),
+                pageSize: types.GqlNullable(
+                    types.GqlInt({
+                        description: 'Größe des Ergebnisfensters.',
+                        validation: { max: 1000, min: 1 },
+                    })
+                ),
+                sort: types.GqlNullable(types.GqlSort(this.model)),
+                text: types.GqlString({ description: 'Die gesuchten Begriffe.', validation: { empty: false } }),
+            },
+            types.GqlObject(`Search${this.model.graphQLType.name}Result`, {
+                items: types.GqlArray(
+                    types.GqlObject(`${this.model.graphQLType.name}SearchHit`, {
+                        item: this.model,
+                        score: types.GqlFloat({ description: 'Die Relevanz der Entität für die Suche.' }),
+                    }),
+                    { description: 'Alle Entitäten im angeforderten Ergebnisfenster - die relevantesten zuerst.' }
+                ),
+                page: types.GqlInt({ description: 'Die angezeigte Seite im Ergebnisfenster.' }),
+                pageCount: GqlLazy(types.GqlInt({ description: 'Die Anzahl der Seiten im Ergebnisfenster.' })),
+                pageSize: types.GqlInt({ description: 'Die Größe des Ergebnisfensters.' }),
+                totalCount: GqlLazy(types.GqlInt({ description: 'Die Gesamtzahl aller passenden Entitäten.' })),
+            }),
+            'Volltextsuche - die Entitäten sind immer zuerst nach ihrer Relevanz geordnet, die angegebene Sortierung gilt nur bei gleicher Relevanz.',
+            async (args, context) => {
+                /** Ergebnisfenster ermitteln. */
+                const pageSize = args.pageSize || 100
+                const page = args.page || 1
+
+                /** Die Volltextsuche wird mit dem Filter kombiniert. */
+                const text = args.language ? { $language: args.language, $search: args.text } : { $search: args.text }
+
+                const filter = {
+                    $and: [
+                        { $text: text },
+                        await this.createFilter(
+                            args.filter,
+                            context,
+                            await this.checkIncludeDeleted(args.includeDeleted, context)
+                        ),
+                    ],
+                }
+
+                await this.checkSortAccess(args.sort, context)
+
+                /** Suche durchführen - bei gleicher Relevanz gilt die angegebene Sortierung. */
+                const self = await this.collection
+                const score = { $meta: 'textScore' as const }
+
+                const items = await self
+                    .find<TItem & { _score: number }>(filter, { projection: { _score: score } })
+                    .sort({ _score: score, ...this.createSort(args.sort) })
+                    .skip((page - 1) * pageSize)
+                    .limit(pageSize)
+                    .toArray()
+
+                /** Die Gesamtzahl wird nur bei Bedarf und dann auch nur einmal ermittelt. */
+                let total: Promise<number>
+
+                const totalCount = () => (total = total || self.countDocuments(toCountFilter(filter)))
+
+                /** Entitäten als GraphQL Ergebnis melden. */
+                return {
+                    items: await Promise.all(
+                        items.map(async ({ _score, ...item }) => ({
+                            item: await this.toGraphQL(item as unknown as TItem, context),
+                            score: _score,
+                        }))
+                    ),
+                    page,
+                    pageCount: lazy(async () => Math.ceil((await totalCount()) / pageSize)),
+                    pageSize,
+                    totalCount: lazy(totalCount),
+                }
+            }
+        )
+
+    /** Informationen zur Registrierung der Überwachung neu angelegter Entitäten. */
+    readonly onAdded = this.subscriptions.register(
+        'added',
+        { filter: types.GqlNullable(createObjectFilter(this.model.graphQLType)) },
+        this.model,
+        'Neu angelegte Entitäten überwachen.',
+        async (args, context) =>
+            this.changes.listen('added', await this.createFilter(args.filter, context), (item) =>
+                this.toGraphQL(item, context)
+            )
+    )
+
+    /** Informationen zur Registrierung der Überwachung veränderter Entitäten. */
+    readonly onUpdated = this.subscriptions.register(
+        'updated',
+        { filter: types.GqlNullable(createObjectFilter(this.model.graphQLType)) },
+        this.model,
+        'Veränderte Entitäten überwachen.',
+        async (args, context) =>
+            this.changes.listen('updated', await this.createFilter(args.filter, context), (item) =>
+                this.toGraphQL(item, context)
+            )
+    )
+
+    /** Informationen zur Registrierung der Überwachung entfernter Entitäten. */
+    readonly onRemoved = this.subscriptions.register(
+        'removed',
+        { filter: types.GqlNullable(createObjectFilter(this.model.graphQLType)) },
+        this.model,
+        'Entfernte Entitäten überwachen.',
+        async (args, context) =>
+            this.changes.listen('removed', await this.createFilter(args.filter, context, true), (item) =>
+                this.toGraphQL(item, context)
+            )
+    )
+
+    /**
+     * Erstellt aus einem GraphQL Filter die zugehörige MongoDb Suchbedingung. Bedingungen auf
+     * Verweise werden dabei durch eine Suche in der zugehörigen Collection (Tabelle) aufgelöst.
+     *
+     * @param gqlFilter der GraphQL Filter.
+     * @param context der GraphQL Kontext des Aufrufs - Bedingungen sind nur auf lesbare Felder erlaubt.
+     * @param includeDeleted gesetzt, wenn auch entfernte Entitäten berücksichtigt werden sollen.
+     */
+    protected async createFilter(
+        gqlFilter: unknown,
+        context: TContext,
+        includeDeleted?: boolean
+    ): Promise<mongodb.Filter<unknown>> {
+        const caller = (await getCaller(context)) || {}
+        const filter = toMongoFilter(await resolveReferenceFilter(gqlFilter, this.model, caller))
+
+        /** Entfernte Entitäten werden üblicherweise nicht berücksichtigt. */
+        return this.softDelete && !includeDeleted ? { $and: [filter, { _deletedAt: null }] } : filter
+    }
+
+    /**
+     * Prüft, ob der Aufrufer alle Felder einer Sortierung auslesen darf - die Reihenfolge würde
+     * sonst die Werte verraten.
+     *
+     * @param sortFields die gewünschte Sortierung.
+     * @param context der GraphQL Kontext des Aufrufs.
+     */
+    protected async checkSortAccess(
+        sortFields: { direction: unknown; field: string }[] | undefined,
+        context: TContext
+    ): Promise<void> {
+        const caller = (await getCaller(context)) || {}
+
+        for (const { field } of sortFields || []) {
+            if (!isFieldAllowed(this.model, field, caller)) {
+                throw createError('FORBIDDEN', 'field not allowed', { field })
+            }
+        }
+    }
+
+    /**
+     * Erstellt die Sortierung für eine Suche, wobei immer auf unterster Ebene nach
+     * der eindeutigen Kennung sortiert wird.
+     *
+     * @param sortFields die gewünschte Sortierung.
+     * @param direction optional um die Sortierung vollständig umzukehren.
+     */
+    protected createSort(
+        sortFields: { direction: unknown; field: string }[] | undefined,
+        direction = TSortDirection.Ascending
+    ): Record<string, 1 | -1> {
+        /** Sortierung auswerden. */
+        const sort: Record<string, 1 | -1> = {}
+
+        for (const sortField of sortFields || []) {
+            sort[sortField.field] = sortField.direction === direction ? 1 : -1
+        }
+
+        /** Stabile Sortierung auf unterester Ebene erzwingen. */
+        sort._id = direction === TSortDirection.Ascending ? 1 : -1
+
+        return sort
+    }
 }
 
 /** Vereinfachte Klassendefinition für reguläre Entitäten (mit _id). */
@@ -255,4 +1313,5 @@ export abstract class Collection<
     TModel extends types.GqlRecord<TItem, TLayout>,
     TItem = types.TGqlType<TModel>,
     TLayout = types.TGqlLayoutType<TModel>,
-> extends CollectionBase<TItem extends { _id: string } ? TItem : never, TLayout> {}
+    TContext = unknown,
+> extends CollectionBase<TItem extends { _id: string } ? TItem : never, TLayout, TContext> {}
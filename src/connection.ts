@@ -1,6 +1,8 @@
+import { AsyncLocalStorage } from 'async_hooks'
 import * as mongodb from 'mongodb'
 
 import { Collection } from './collection'
+import { applyJsonSchema, toJsonSchema } from './jsonSchema'
 import * as types from './types'
 
 /** Beschreibt den Konstruktor für eine MongoDb Anbindung. */
@@ -9,8 +11,120 @@ interface ICollectionFactory<TItem, TLayout, TCollection extends Collection<type
     new(model: types.GqlRecord<TItem, TLayout>, connection: Connection): TCollection
 }
 
+/** Feineinstellungen für das Anlegen einer Anbindung. */
+export interface ICreateCollectionOptions {
+    /** Gesetzt, um Indexe mit veränderten Einstellungen zu entfernen und neu anzulegen - ansonsten werden nur fehlende Indexe erstellt. */
+    recreateIndexes?: boolean
+    /** Optional die Prüfung der Entitäten durch die Datenbank selbst - abgeleitet aus der Typdefinition. */
+    validationLevel?: 'moderate' | 'strict'
+}
+
+/** Die Position der Optionen in den Parametern aller Operationen, die an einer Transaktion teilnehmen können. */
+const sessionOptions: Record<string, number> = {
+    aggregate: 1,
+    bulkWrite: 1,
+    countDocuments: 1,
+    deleteMany: 1,
+    deleteOne: 1,
+    distinct: 2,
+    find: 1,
+    findOne: 1,
+    findOneAndDelete: 1,
+    findOneAndReplace: 2,
+    findOneAndUpdate: 2,
+    insertMany: 1,
+    insertOne: 1,
+    replaceOne: 2,
+    updateMany: 2,
+    updateOne: 2,
+}
+
+/** Die Ergebnisse einer Suche mit optionaler Sortierung und Einschränkung des Ergebnisfensters. */
+export interface IDatabaseCursor<TItem> {
+    /** Legt die maximale Anzahl von Entitäten fest. */
+    limit(limit: number): IDatabaseCursor<TItem>
+    /** Legt fest, wie viele Entitäten übersprungen werden sollen. */
+    skip(skip: number): IDatabaseCursor<TItem>
+    /** Legt die Sortierung fest. */
+    sort(sort: mongodb.Sort): IDatabaseCursor<TItem>
+    /** Meldet alle Entitäten im Ergebnisfenster. */
+    toArray(): Promise<TItem[]>
+}
+
+/** Meldet die Veränderungen an den Entitäten einer Collection (Tabelle). */
+export interface IDatabaseChangeStream<TItem extends mongodb.Document> {
+    /** Beendet die Überwachung. */
+    close(): Promise<void>
+    /** Meldet jede einzelne Veränderung. */
+    on(event: 'change', listener: (change: mongodb.ChangeStreamDocument<TItem>) => void): unknown
+    /** Meldet einen Fehler in der Überwachung. */
+    on(event: 'error', listener: (error: Error) => void): unknown
+    /** Meldet, sobald die Überwachung bereit ist. */
+    once(event: 'resumeTokenChanged', listener: () => void): unknown
+}
+
+/**
+ * Alle Operationen auf einer Collection (Tabelle), die von den Anbindungen verwendet werden - diese
+ * bietet sowohl MongoDb selbst als auch eine MemoryConnection.
+ */
+export interface IDatabaseCollection<TItem extends mongodb.Document> {
+    /** Meldet die Anzahl der passenden Entitäten. */
+    countDocuments(filter?: mongodb.Filter<TItem>): Promise<number>
+    /** Legt Indexe an. */
+    createIndexes(indexes: mongodb.IndexDescription[]): Promise<string[]>
+    /** Meldet alle unterschiedlichen Werte eines Feldes in den passenden Entitäten. */
+    distinct(field: string, filter?: mongodb.Filter<TItem>): Promise<unknown[]>
+    /** Entfernt alle passenden Entitäten. */
+    deleteMany(filter: mongodb.Filter<TItem>): Promise<mongodb.DeleteResult>
+    /** Entfernt einen Index. */
+    dropIndex(name: string): Promise<unknown>
+    /** Sucht nach Entitäten. */
+    find(filter?: mongodb.Filter<TItem>, options?: mongodb.FindOptions): IDatabaseCursor<mongodb.WithId<TItem>>
+    /** Sucht nach Entitäten - etwa mit zusätzlichen Feldern aus der Projektion. */
+    find<TResult extends mongodb.Document>(
+        filter: mongodb.Filter<TItem>,
+        options?: mongodb.FindOptions
+    ): IDatabaseCursor<TResult>
+    /** Sucht nach einer einzelnen Entität. */
+    findOne(filter?: mongodb.Filter<TItem>): Promise<mongodb.WithId<TItem> | null>
+    /** Entfernt eine einzelne Entität. */
+    findOneAndDelete(filter: mongodb.Filter<TItem>): Promise<mongodb.WithId<TItem> | null>
+    /** Verändert eine einzelne Entität und legt sie bei Bedarf an - mit weiteren Informationen zur Ausführung. */
+    findOneAndUpdate(
+        filter: mongodb.Filter<TItem>,
+        update: mongodb.UpdateFilter<TItem>,
+        options: mongodb.FindOneAndUpdateOptions & { includeResultMetadata: true }
+    ): Promise<mongodb.ModifyResult<TItem>>
+    /** Verändert eine einzelne Entität und legt sie bei Bedarf an. */
+    findOneAndUpdate(
+        filter: mongodb.Filter<TItem>,
+        update: mongodb.UpdateFilter<TItem>,
+        options?: mongodb.FindOneAndUpdateOptions
+    ): Promise<mongodb.WithId<TItem> | null>
+    /** Legt eine neue Entität an. */
+    insertOne(item: mongodb.OptionalUnlessRequiredId<TItem>): Promise<mongodb.InsertOneResult<TItem>>
+    /** Meldet alle Indexe. */
+    listIndexes(): Pick<IDatabaseCursor<mongodb.Document>, 'toArray'>
+    /** Überwacht die Veränderungen an den Entitäten. */
+    watch(pipeline?: mongodb.Document[], options?: mongodb.ChangeStreamOptions): IDatabaseChangeStream<TItem>
+}
+
+/** Eine Aktion, die erst nach dem erfolgreichen Abschluss einer Transaktion ausgeführt wird. */
+type TAfterCommit = () => Promise<void> | void
+
+/** Ein einzelner Versuch einer Transaktion. */
+interface ITransaction {
+    /** Alle Aktionen, die erst nach dem erfolgreichen Abschluss ausgeführt werden. */
+    pending: TAfterCommit[]
+    /** Die zugehörige Sitzung. */
+    session: mongodb.ClientSession
+}
+
 /** Verwaltet die Verbindung zu einer einzelnen MongoDb Datenbank. */
 export class Connection {
+    /** Der aktuell ausgeführte Versuch einer Transaktion. */
+    private readonly _transaction = new AsyncLocalStorage<ITransaction>()
+
     /**
      * Erstellt eine neu Verwaltung.
      *
@@ -23,9 +137,125 @@ export class Connection {
         return this._client.then(c => c.db())
     }
 
-    /** Meldet eine Verbindung zu einer einzelnen Collection (Tabelle). */
-    getCollection<TIem>(name: string): Promise<mongodb.Collection<TIem>> {
-        return this.database.then(db => db.collection(name))
+    /** Meldet die Sitzung der aktuell ausgeführten Transaktion - sofern vorhanden. */
+    get session(): mongodb.ClientSession | undefined {
+        return this._transaction.getStore()?.session
+    }
+
+    /** Gesetzt, wenn gerade eine Transaktion ausgeführt wird. */
+    get inTransaction(): boolean {
+        return !!this._transaction.getStore()
+    }
+
+    /**
+     * Meldet eine Verbindung zu einer einzelnen Collection (Tabelle). Alle Operationen nehmen
+     * automatisch an der aktuell ausgeführten Transaktion teil.
+     */
+    getCollection<TItem extends mongodb.Document>(name: string): Promise<IDatabaseCollection<TItem>> {
+        return this.database.then(db => this._joinSession(db.collection<TItem>(name)))
+    }
+
+    /**
+     * Führt eine Operation in einer Transaktion aus. Innerhalb einer bereits laufenden
+     * Transaktion wird keine neue gestartet. Mit afterCommit angemeldete Aktionen werden erst
+     * nach dem erfolgreichen Abschluss ausgeführt.
+     *
+     * @param fn die auszuführende Operation - bei vorübergehenden Fehlern wird sie unter Umständen mehrfach aufgerufen.
+     */
+    async withTransaction<T>(fn: (session: mongodb.ClientSession) => Promise<T>): Promise<T> {
+        const current = this._transaction.getStore()
+
+        if (current) {
+            return fn(current.session)
+        }
+
+        /** Bei einer Wiederholung werden die Aktionen der vorherigen Versuche verworfen. */
+        let pending: TAfterCommit[] = []
+
+        const result = await this.runTransaction(session =>
+            this._transaction.run({ pending: (pending = []), session }, () => fn(session))
+        )
+
+        for (const action of pending) {
+            await action()
+        }
+
+        return result
+    }
+
+    /**
+     * Führt eine Aktion erst nach dem erfolgreichen Abschluss der aktuell ausgeführten Transaktion
+     * aus - ohne Transaktion sofort.
+     *
+     * @param action die auszuführende Aktion.
+     */
+    async afterCommit(action: TAfterCommit): Promise<void> {
+        const current = this._transaction.getStore()
+
+        if (current) {
+            current.pending.push(action)
+        } else {
+            await action()
+        }
+    }
+
+    /**
+     * Führt eine neue Transaktion in der Datenbank aus.
+     *
+     * @param attempt ein einzelner Versuch - bei vorübergehenden Fehlern wird er unter Umständen mehrfach aufgerufen.
+     */
+    protected async runTransaction<T>(attempt: (session: mongodb.ClientSession) => Promise<T>): Promise<T> {
+        const session = (await this._client).startSession()
+
+        try {
+            return await session.withTransaction(() => attempt(session))
+        } finally {
+            await session.endSession()
+        }
+    }
+
+    /**
+     * Ergänzt alle Operationen einer Collection (Tabelle) um die Sitzung der aktuell ausgeführten Transaktion.
+     *
+     * @param collection die Collection (Tabelle).
+     */
+    private _joinSession<TItem>(collection: mongodb.Collection<TItem>): mongodb.Collection<TItem> {
+        return new Proxy(collection, {
+            get: (target, property, receiver) => {
+                const value = Reflect.get(target, property, receiver)
+                const index = typeof property === 'string' && sessionOptions[property]
+
+                if (typeof index !== 'number' || typeof value !== 'function') {
+                    return value
+                }
+
+                return (...args: unknown[]) => {
+                    const session = this.session
+
+                    if (session) {
+                        args = [...args]
+                        args[index] = { ...(args[index] as object), session }
+                    }
+
+                    return value.apply(target, args)
+                }
+            },
+        })
+    }
+
+    /**
+     * Hinterlegt die Prüfung einer Collection (Tabelle) in der Datenbank.
+     *
+     * @param name der Name der Collection.
+     * @param schema das JSON Schema der Entitäten.
+     * @param validationLevel die Art der Prüfung.
+     */
+    protected async applyJsonSchema(
+        name: string,
+        schema: mongodb.Document,
+        validationLevel: 'moderate' | 'strict'
+    ): Promise<void> {
+        await applyJsonSchema(await this.database, name, schema, validationLevel)
     }
 
     /**
@@ -34,14 +264,24 @@ export class Connection {
      * @param model die zu verwendende Typdefinition.
      * @param factory Methode zum Erstellen der Anbindung - die dann direkt mit der
      * hier verwalteten MongoDb Datenbank verbunden wird.
+     * @param options optionale Feineinstellungen für das Anlegen.
      */
     async createCollection<TItem, TLayout, TCollection extends Collection<types.GqlRecord<TItem, TLayout>> = Collection<types.GqlRecord<TItem, TLayout>>>(
         model: types.GqlRecord<TItem, TLayout>,
-        factory: ICollectionFactory<TItem, TLayout, TCollection>
+        factory: ICollectionFactory<TItem, TLayout, TCollection>,
+        options?: ICreateCollectionOptions
     ): Promise<TCollection> {
         const collection = new factory(model, this)
 
-        /** Immer sobald als möglich initialisieren. */
+        /** Bei Bedarf auch die Datenbank selbst prüfen lassen. */
+        if (options?.validationLevel) {
+            const schema = toJsonSchema(model)
+
+            await this.applyJsonSchema(collection.collectionName, schema, options.validationLevel)
+        }
+
+        /** Immer sobald als möglich initialisieren - bestehende Indexe werden nur auf ausdrücklichen Wunsch entfernt. */
+        await collection.reconcileIndexes(false, !!options?.recreateIndexes)
         await collection.initialize()
 
         return collection
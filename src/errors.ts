@@ -0,0 +1,29 @@
+import { GraphQLError } from 'graphql'
+
+/** Die Arten von Fehlern, die ein Client gezielt auswerten kann. */
+export type TErrorCode = 'BAD_USER_INPUT' | 'CONFLICT' | 'FORBIDDEN' | 'NOT_FOUND'
+
+/** Beschreibt einen einzelnen Fehler bei der Prüfung eines Parameters. */
+export interface IFieldError {
+    /** Der tatsächliche Wert, sofern bekannt. */
+    actual?: unknown
+    /** Der erwartete Wert, sofern bekannt. */
+    expected?: unknown
+    /** Der Pfad zum Feld, Unterobjekte werden durch Punkte getrennt. */
+    field: string
+    /** Die Fehlermeldung. */
+    message: string
+    /** Die Art der verletzten Prüfregel. */
+    type: string
+}
+
+/**
+ * Erstellt einen GraphQL Fehler, dessen Art in den Erweiterungen gemeldet wird.
+ *
+ * @param code die Art des Fehlers.
+ * @param message die Fehlermeldung.
+ * @param details optional weitere Informationen zum Fehler.
+ */
+export function createError(code: TErrorCode, message: string, details?: Record<string, unknown>): GraphQLError {
+    return new GraphQLError(message, { extensions: { ...details, code } })
+}
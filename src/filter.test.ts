@@ -0,0 +1,107 @@
+import { deepStrictEqual, strictEqual } from 'node:assert'
+import { describe, it } from 'node:test'
+
+import { graphql, GraphQLError, GraphQLSchema } from 'graphql'
+
+import { Collection } from './collection'
+import { MemoryConnection } from './memory'
+import { createSchemaConfiguration } from './schema'
+import * as types from './types'
+
+/** Die Typdefinition der Entitäten im Test. */
+const Shop = types.GqlObject('Shop', {
+    _id: types.GqlId({ computed: true }),
+    location: types.GqlGeoPoint(),
+    name: types.GqlString({ sortable: true }),
+    tags: types.GqlArray(types.GqlString()),
+})
+
+/** Die Anbindung der Entitäten im Test. */
+class ShopCollection extends Collection<typeof Shop> {
+    readonly collectionName = 'shops'
+}
+
+/** Einige Geschäfte mit Orten in Berlin, Potsdam und Hamburg. */
+const shops = [
+    { coordinates: [13.405, 52.52], name: 'Berlin', tags: ['a', 'b', 'c'] },
+    { coordinates: [13.064, 52.391], name: 'Potsdam', tags: ['a'] },
+    { coordinates: [9.993, 53.551], name: 'Hamburg', tags: ['b', 'c'] },
+]
+
+/**
+ * Legt die Anbindung samt aller Geschäfte an und erstellt eine Methode zum Suchen
+ * mit einem Filter - gemeldet werden die Namen der gefundenen Geschäfte.
+ */
+async function createSearch(): Promise<
+    (filter: string) => Promise<{ errors?: readonly GraphQLError[]; names?: string[] }>
+> {
+    const connection = new MemoryConnection()
+    const collection = await connection.createCollection(Shop, ShopCollection)
+    const schema = new GraphQLSchema(await createSchemaConfiguration({ shops: Promise.resolve(collection) }))
+
+    for (const { coordinates, name, tags } of shops) {
+        const { errors } = await graphql({
+            contextValue: {},
+            schema,
+            source: `mutation { shops { add(data: { location: { coordinates: [${coordinates}], type: "Point" }, name: "${name}", tags: ${JSON.stringify(tags)} }) { _id } } }`,
+        })
+
+        strictEqual(errors, undefined)
+    }
+
+    return async (filter: string) => {
+        const { data, errors } = await graphql({
+            contextValue: {},
+            schema,
+            source: `{ shops { find(filter: ${filter}, sort: [{ direction: Ascending, field: name }]) { items { name } totalCount } } }`,
+        })
+
+        const found = (data as { shops: { find: { items: { name: string }[]; totalCount: number } } })?.shops?.find
+
+        /** Die Anzahl muss immer zu den gefundenen Entitäten passen. */
+        if (found) {
+            strictEqual(found.totalCount, found.items.length)
+        }
+
+        return { errors, names: found?.items.map((shop) => shop.name) }
+    }
+}
+
+describe('filter', () => {
+    it('finds entities near a point', async () => {
+        const search = await createSearch()
+        const near = (distances: string) =>
+            search(`{ location: { Near: { point: { coordinates: [13.405, 52.52], type: "Point" }${distances} } } }`)
+
+        deepStrictEqual((await near(', maxDistance: 50000')).names, ['Berlin', 'Potsdam'])
+        deepStrictEqual((await near(', maxDistance: 50000, minDistance: 1000')).names, ['Potsdam'])
+        deepStrictEqual((await near('')).names, ['Berlin', 'Hamburg', 'Potsdam'])
+    })
+
+    it('rejects a distance search within a logical operation', async () => {
+        const search = await createSearch()
+        const { errors } = await search(
+            '{ Not: { location: { Near: { point: { coordinates: [13.405, 52.52], type: "Point" } } } } }'
+        )
+
+        strictEqual(errors?.[0].extensions.code, 'BAD_USER_INPUT')
+    })
+
+    it('compares the number of elements in a field', async () => {
+        const search = await createSearch()
+
+        deepStrictEqual((await search('{ tags: { SizeGt: 1 } }')).names, ['Berlin', 'Hamburg'])
+        deepStrictEqual((await search('{ tags: { SizeGt: 2 } }')).names, ['Berlin'])
+        deepStrictEqual((await search('{ tags: { Size: 1 } }')).names, ['Potsdam'])
+    })
+
+    it('negates a condition', async () => {
+        const search = await createSearch()
+
+        deepStrictEqual((await search('{ Not: { name: { Eq: "Berlin" } } }')).names, ['Hamburg', 'Potsdam'])
+        deepStrictEqual((await search('{ Not: { tags: { All: ["b", "c"] } } }')).names, ['Potsdam'])
+        const nested = await search('{ Not: { Or: [{ name: { Eq: "Berlin" } }, { tags: { Size: 1 } }] } }')
+
+        deepStrictEqual(nested.names, ['Hamburg'])
+    })
+})
@@ -2,18 +2,134 @@
 
 import { RuleCustom } from 'fastest-validator'
 import * as graphql from 'graphql'
-import { Filter } from 'mongodb'
+import { Document, Filter } from 'mongodb'
 
+import { createError } from './errors'
 import * as filterTypes from './filterTypes'
+import { GraphQLDate, GraphQLDateTime } from './scalars'
 import * as types from './types'
 
+/** Die Typdefinition eines Filters auf einem Objekt. */
+type TObjectFilter = types.GqlRecord<types.TGqlObject<types.IGqlObjectLayout>, types.IGqlObjectLayout, 'object'>
+
+/** Alle bereits erstellten Filter - jeder GraphQL Typ darf nur einmal angelegt werden. */
+const knownFilters: Record<string, TObjectFilter> = {}
+
+/**
+ * Erstellt die GraphQL Filterbeschreibung für einen Typen.
+ *
+ * @param type der zu untersuchende GraphQL Datentyp.
+ * @param outer bei Unterobjekten der Name der umgebenden Datentypen.
+ * */
+export function createObjectFilter(type: graphql.GraphQLObjectType, outer = ''): TObjectFilter {
+    /** Jeder Filter wird nur einmal erstellt und kann dann beliebig oft verwendet werden. */
+    const name = `${outer}${type.name}Filter`
+
+    if (!knownFilters[name]) {
+        knownFilters[name] = createFilter(type, outer, name)
+    }
+
+    return knownFilters[name]
+}
+
+/**
+ * Erstellt die GraphQL Filterbeschreibung für einen Typen, wobei der Filter zwingend angegeben
+ * werden muss. Da die Filter gemeinsam verwendet werden, wird dazu eine eigene Typdefinition
+ * mit denselben GraphQL Typen erstellt.
+ *
+ * @param type der zu untersuchende GraphQL Datentyp.
+ */
+export function createRequiredObjectFilter(type: graphql.GraphQLObjectType): TObjectFilter {
+    const filter = createObjectFilter(type)
+
+    return new types.GqlRecord(
+        { ...filter.options, validation: { type: 'object' } },
+        false,
+        filter.graphQLType,
+        filter.graphQLInputType,
+        filter.graphQLUpdateType,
+        filter.layout
+    )
+}
+
+/**
+ * Erstellt die Typdefinition für einen Filter auf einem Aufzählungstypen.
+ *
+ * @param type der GraphQL Typ der Aufzählung.
+ * @param list gesetzt, wenn der Filter für ein Feld von Werten der Aufzählung verwendet wird.
+ */
+function createEnumFilter(type: graphql.GraphQLEnumType, list: boolean): TObjectFilter {
+    const name = `${type.name}${list ? 'List' : ''}Filter`
+
+    if (!knownFilters[name]) {
+        const factory = (options?: types.IGqlOptionsCommon<RuleCustom>) =>
+            new types.GqlBase<unknown, 'unknown'>(options, false, type)
+
+        knownFilters[name] = types.GqlObject(
+            name,
+            list
+                ? { ...filterTypes.createStandardFilter(factory), ...filterTypes.createListFilter(factory) }
+                : filterTypes.createStandardFilter(factory)
+        )
+    }
+
+    return knownFilters[name]
+}
+
+/**
+ * Erstellt die Typdefinition für einen Filter auf einem Feld von Unterobjekten. Neben den Bedingungen
+ * auf den Feldern der Unterobjekte, die jeweils von beliebigen Elementen erfüllt werden können, kann
+ * mit ElemMatch verlangt werden, dass ein einzelnes Element alle Bedingungen erfüllt.
+ *
+ * @param elements der Filter auf einem einzelnen Unterobjekt.
+ * @param name der Name des Filters.
+ */
+function createObjectListFilter(elements: TObjectFilter, name: string): TObjectFilter {
+    if (!knownFilters[name]) {
+        knownFilters[name] = createLogicalFilter(name, {
+            ...(elements.layout as types.IGqlObjectLayout),
+            ElemMatch: types.GqlNullable(elements),
+            ...filterTypes.createSizeFilter(),
+        })
+    }
+
+    return knownFilters[name]
+}
+
+/**
+ * Typdefinition für einen Filter auf einen Verweis - dabei wird der Filter der Entität verwendet,
+ * auf die verwiesen wird. Dieser wird erst bei Bedarf erstellt, da Entitäten sich auch gegenseitig
+ * referenzieren können.
+ */
+class GqlReferenceFilter extends types.GqlBase<unknown, 'object'> {
+    /**
+     * Erstellt eine neue Typdefinition.
+     *
+     * @param _target der GraphQL Typ der Entität, auf die verwiesen wird.
+     */
+    constructor(private readonly _target: graphql.GraphQLObjectType) {
+        super({}, false, undefined)
+    }
+
+    /** Der Filter auf die Entität ist immer optional. */
+    get inputType(): graphql.GraphQLInputType {
+        return createObjectFilter(this._target).graphQLInputType
+    }
+
+    /** Der Filter auf die Entität ist immer optional. */
+    get updateType(): graphql.GraphQLInputType {
+        return createObjectFilter(this._target).graphQLUpdateType
+    }
+}
+
 /**
  * Erstellt die GraphQL Filterbeschreibung für einen Typen.
  *
  * @param type der zu untersuchende GraphQL Datentyp.
- * @param outer gesetzt, wenn es sich um einen äußeren Datentyp handelt, der um And und Or ergänzt werden muss.
+ * @param outer bei Unterobjekten der Name der umgebenden Datentypen.
+ * @param filterName der Name des Filters.
  * */
-export function createObjectFilter(type: graphql.GraphQLObjectType, outer = '') {
+function createFilter(type: graphql.GraphQLObjectType, outer: string, filterName: string): TObjectFilter {
     const filter: types.IGqlObjectLayout = {}
 
     /** Alle Felder durchgehen. */
@@ -25,61 +141,209 @@ export function createObjectFilter(type: graphql.GraphQLObjectType, outer = '')
         /** Äußeres GraphQLNull entfernen. */
         const outerType = field instanceof graphql.GraphQLNonNull ? field.ofType : field
 
-        /** Bei Feldern zählt der Elementtyp. */
-        const innerType = outerType instanceof graphql.GraphQLList ? outerType.ofType : outerType
+        /** Bei Feldern zählt der Elementtyp, zusätzlich gibt es dann Operationen auf dem gesamten Feld. */
+        const isList = outerType instanceof graphql.GraphQLList
+        const innerType = isList ? outerType.ofType : outerType
 
         /** GraphQL Typ auf dessen Grundlage der Filter erstellt werden kann. */
         const fieldType = innerType instanceof graphql.GraphQLNonNull ? innerType.ofType : innerType
 
         /** Filterbedingung anlegen. */
         if (fieldType === graphql.GraphQLString) {
-            filter[name] = filterTypes.GqlStringFilter
+            filter[name] = isList ? filterTypes.GqlStringListFilter : filterTypes.GqlStringFilter
         } else if (fieldType === graphql.GraphQLInt) {
-            filter[name] = filterTypes.GqlIntFilter
+            filter[name] = isList ? filterTypes.GqlIntListFilter : filterTypes.GqlIntFilter
         } else if (fieldType === graphql.GraphQLFloat) {
-            filter[name] = filterTypes.GqlFloatFilter
+            filter[name] = isList ? filterTypes.GqlFloatListFilter : filterTypes.GqlFloatFilter
         } else if (fieldType === graphql.GraphQLBoolean) {
-            filter[name] = filterTypes.GqlBooleanFilter
+            filter[name] = isList ? filterTypes.GqlBooleanListFilter : filterTypes.GqlBooleanFilter
+        } else if (fieldType === GraphQLDate) {
+            filter[name] = isList ? filterTypes.GqlDateListFilter : filterTypes.GqlDateFilter
+        } else if (fieldType === GraphQLDateTime) {
+            filter[name] = isList ? filterTypes.GqlDateTimeListFilter : filterTypes.GqlDateTimeFilter
+        } else if (fieldType === types.GraphQLGeoPoint) {
+            /** Bei Punkten wird nach der Entfernung gesucht. */
+            filter[name] = filterTypes.GqlGeoFilter
+        } else if (fieldType instanceof graphql.GraphQLObjectType && fields[name].extensions?.reference) {
+            /** Bei Verweisen wird nach den Eigenschaften der Entität gefiltert, auf die verwiesen wird. */
+            filter[name] = types.GqlNullable(new GqlReferenceFilter(fieldType))
         } else if (fieldType instanceof graphql.GraphQLObjectType) {
             /** Bei Unterobjekten wird eine entsprechend untergeordnete Beschreibung erstellt. */
-            filter[name] = types.GqlNullable(createObjectFilter(fieldType, `${outer}${type.name}`))
-        } else if (fieldType instanceof graphql.GraphQLEnumType) {
-            /** Aufzählung müssen etwas trickreicher umgesetzt werden. */
+            const scope = `${outer}${type.name}`
+            const elements = createObjectFilter(fieldType, scope)
+
             filter[name] = types.GqlNullable(
-                types.GqlObject(
-                    `${fieldType.name}Filter`,
-                    filterTypes.createStandardFilter(
-                        (options?: types.IGqlOptionsCommon<RuleCustom>) =>
-                            new types.GqlBase<unknown, 'unknown'>(options, false, fieldType)
-                    )
-                )
+                isList ? createObjectListFilter(elements, `${scope}${fieldType.name}ListFilter`) : elements
             )
+        } else if (fieldType instanceof graphql.GraphQLEnumType) {
+            /** Aufzählung müssen etwas trickreicher umgesetzt werden. */
+            filter[name] = types.GqlNullable(createEnumFilter(fieldType, isList))
         }
     }
 
-    /** Dieser GraphQL bekommt über And und Or einen Selbstbezug und muss etwas anders behandelt werden. Insbesondere wird die semantische Prüfung deaktiviert. */
-    const name = `${outer}${type.name}Filter`
+    return createLogicalFilter(filterName, filter)
+}
 
-    return types.GqlObject(
-        name,
-        filter,
-        undefined,
-        true,
-        !outer &&
-            ((fields, mode, type) => {
-                if (mode === 'input' && type.name === `${name}Input`) {
-                    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                    const anyFields: any = fields
-
-                    anyFields.And = { type: new graphql.GraphQLList(new graphql.GraphQLNonNull(type)) }
-                    anyFields.Or = { type: new graphql.GraphQLList(new graphql.GraphQLNonNull(type)) }
-                }
-
-                return fields
-            })
-    )
+/**
+ * Erstellt die Typdefinition eines Filters, in dem auf jeder Ebene die logischen Operationen And, Nor,
+ * Not und Or angeboten werden.
+ *
+ * @param filterName der Name des Filters.
+ * @param filter die Bedingungen auf den einzelnen Feldern.
+ */
+function createLogicalFilter(filterName: string, filter: types.IGqlObjectLayout): TObjectFilter {
+    /** Dieser GraphQL bekommt über die logischen Operationen einen Selbstbezug und muss etwas anders behandelt werden. Insbesondere wird die semantische Prüfung deaktiviert. */
+    return types.GqlObject(filterName, filter, undefined, true, (fields, mode, type) => {
+        if (mode === 'input' && type.name === `${filterName}Input`) {
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            const anyFields: any = fields
+
+            anyFields.And = { type: new graphql.GraphQLList(new graphql.GraphQLNonNull(type)) }
+            anyFields.Nor = { type: new graphql.GraphQLList(new graphql.GraphQLNonNull(type)) }
+            anyFields.Not = { type }
+            anyFields.Or = { type: new graphql.GraphQLList(new graphql.GraphQLNonNull(type)) }
+        }
+
+        return fields
+    })
+}
+
+/** Der Erdradius am Äquator in Metern, wie ihn auch MongoDb verwendet - für die Umrechnung von Entfernungen in Winkel. */
+const earthRadius = 6378100
+
+/**
+ * Meldet eine ungültige Angabe in einem Filter.
+ *
+ * @param field der Pfad zur Angabe.
+ * @param actual die Angabe selbst.
+ * @param type die Art der verletzten Regel.
+ * @param message die Beschreibung der Regel.
+ */
+function createFilterError(field: string, actual: unknown, type: string, message: string) {
+    return createError('BAD_USER_INPUT', 'bad filter', {
+        fields: [{ actual, field, message: `The '${field}' field ${message}.`, type }],
+    })
+}
+
+/**
+ * Prüft, ob Längen- und Breitengrad im gültigen Bereich liegen.
+ *
+ * @param coordinates Längen- und Breitengrad.
+ * @param field der Pfad zur Angabe.
+ */
+function checkCoordinates(coordinates: unknown, field: string): void {
+    const [lon, lat] = Array.isArray(coordinates) ? coordinates : []
+
+    if (!Array.isArray(coordinates) || coordinates.length !== 2 || !(Math.abs(lon) <= 180) || !(Math.abs(lat) <= 90)) {
+        throw createFilterError(field, coordinates, 'geoPoint', 'must contain a valid longitude and latitude')
+    }
+}
+
+/**
+ * Prüft, ob eine Suchbedingung für MongoDb die Suche in der Nähe eines Punktes enthält.
+ *
+ * @param filter die Suchbedingung.
+ */
+function hasNearSphere(filter: unknown): boolean {
+    if (!filter || typeof filter !== 'object' || filter instanceof Date) {
+        return false
+    }
+
+    return Object.entries(filter).some(([key, value]) => key === '$nearSphere' || hasNearSphere(value))
+}
+
+/**
+ * Erstellt die Suche nach Punkten innerhalb eines Kreises.
+ *
+ * @param circle der Mittelpunkt und der Radius in Metern.
+ */
+function toCenterSphere(circle: { center: types.IGeoPoint; radius: number }) {
+    return { $centerSphere: [circle.center.coordinates, circle.radius / earthRadius] }
+}
+
+/**
+ * Erstellt die Suche nach Punkten in der Nähe eines Bezugspunktes.
+ *
+ * @param near der Bezugspunkt mit den erlaubten Entfernungen.
+ */
+function toNearSphere(near: { maxDistance?: number; minDistance?: number; point: types.IGeoPoint }) {
+    const nearSphere: Document = { $geometry: near.point }
+
+    if (typeof near.maxDistance === 'number') {
+        nearSphere.$maxDistance = near.maxDistance
+    }
+
+    if (typeof near.minDistance === 'number') {
+        nearSphere.$minDistance = near.minDistance
+    }
+
+    return nearSphere
+}
+
+/**
+ * Ein Vieleck muss in GeoJSON immer geschlossen sein - bei Bedarf wird der erste Punkt wiederholt.
+ *
+ * @param ring die Eckpunkte des Vielecks.
+ */
+function closeRing(ring: number[][]): number[][] {
+    const first = ring[0]
+    const last = ring[ring.length - 1]
+
+    return first && (first[0] !== last[0] || first[1] !== last[1]) ? [...ring, first] : ring
+}
+
+/**
+ * Die Suche in der Nähe eines Punktes kann beim Zählen und beim Ermitteln eindeutiger Werte
+ * nicht verwendet werden - sie wird dann durch die entsprechende Suche innerhalb eines Kreises ersetzt.
+ *
+ * @param filter die Suchbedingung für MongoDb.
+ */
+export function toCountFilter<TFilter>(filter: TFilter): TFilter {
+    if (Array.isArray(filter)) {
+        return filter.map(toCountFilter) as TFilter
+    }
+
+    if (!filter || typeof filter !== 'object' || filter instanceof Date) {
+        return filter
+    }
+
+    const counted: Record<string, unknown> = {}
+
+    for (const [field, value] of Object.entries(filter)) {
+        const { $nearSphere, ...condition } = (value || {}) as Document
+
+        if (!$nearSphere) {
+            counted[field] = toCountFilter(value)
+
+            continue
+        }
+
+        /** Ohne maximale Entfernung kommt die ganze Erde in Frage. */
+        const center = $nearSphere.$geometry
+        const max = $nearSphere.$maxDistance
+        const within: Document = {
+            ...condition,
+            $geoWithin: toCenterSphere({ center, radius: max ?? Math.PI * earthRadius }),
+        }
+
+        if ($nearSphere.$minDistance) {
+            within.$not = { $geoWithin: toCenterSphere({ center, radius: $nearSphere.$minDistance }) }
+        }
+
+        counted[field] = within
+    }
+
+    return counted as TFilter
 }
 
+/** Die logischen Operationen eines Filters und ihre Umsetzung in MongoDb. */
+const logicalOperations = new Map([
+    ['And', '$and'],
+    ['Nor', '$nor'],
+    ['Not', '$nor'],
+    ['Or', '$or'],
+])
+
 /** Erstellt aus einem formalen Filter Parameter die zugehörige MongoDB Beschreibung. */
 export function toMongoFilter(gqlFilter: unknown, scope = '', filter: any = {}): Filter<unknown> {
     for (const field of Object.keys(gqlFilter || {})) {
@@ -87,15 +351,33 @@ export function toMongoFilter(gqlFilter: unknown, scope = '', filter: any = {}):
         const ops = gqlFilter[field as keyof typeof gqlFilter]
 
         /** Sonderhandlung für logische Operationen. */
-        const isAnd = field === 'And'
+        const logical = logicalOperations.get(field)
 
-        if (isAnd || field === 'Or') {
-            /** Alle Suchbedingungen auswerten. */
-            const subs = ((ops as any) || []).map((f: any) => toMongoFilter(f, scope))
+        if (logical) {
+            /** Alle Suchbedingungen auswerten - Not entspricht dabei einem Nor mit genau einer Bedingung. */
+            const all = field === 'Not' ? (ops ? [ops] : []) : (ops as any) || []
+            const subs = all.map((f: any) => toMongoFilter(f, scope))
+
+            /** MongoDb erlaubt die Suche in der Nähe eines Punktes nur auf oberster Ebene. */
+            if (subs.some(hasNearSphere)) {
+                throw createFilterError(
+                    `${scope}${scope ? '.' : ''}${field}`,
+                    undefined,
+                    'geoNear',
+                    'must not contain a Near condition'
+                )
+            }
 
             /** Eine Berücksichtigung ist nur notwendig wenn mindestens eine Einschränkung. */
-            if (subs.length > 0) {
-                filter[isAnd ? '$and' : '$or'] = subs
+            if (subs.length < 1) {
+                continue
+            }
+
+            /** Bei Unterobjekten können mehrere Or auf einer Ebene landen, die dann alle erfüllt sein müssen. */
+            if (logical === '$or' && filter.$or) {
+                filter.$and = [...(filter.$and || []), { $or: subs }]
+            } else {
+                filter[logical] = [...(filter[logical] || []), ...subs]
             }
 
             continue
@@ -111,7 +393,7 @@ export function toMongoFilter(gqlFilter: unknown, scope = '', filter: any = {}):
             /** Abhängig vom Namen der Operation im Filter umsetzen. */
             const value = ops[op]
 
-            switch (op as filterTypes.stringOperations) {
+            switch (op as filterTypes.stringOperations | filterTypes.listOperations | filterTypes.geoOperations) {
                 case 'Exists':
                     fieldFilter.$exists = value !== false
                     break
@@ -139,6 +421,25 @@ export function toMongoFilter(gqlFilter: unknown, scope = '', filter: any = {}):
                 case 'All':
                     fieldFilter.$all = value || []
                     break
+                case 'ElemMatch':
+                    if (value) {
+                        fieldFilter.$elemMatch = toMongoFilter(value)
+                    }
+                    break
+                case 'Size':
+                    if (value !== null) {
+                        fieldFilter.$size = value
+                    }
+                    break
+                case 'SizeGt':
+                    /** Ein Feld hat genau dann mehr als N Elemente, wenn es ein Element an der Position N gibt. */
+                    if (value < 0) {
+                        /** Mehr als eine negative Anzahl von Elementen hat jede Liste - auch die leere. */
+                        fieldFilter.$type = 'array'
+                    } else if (value !== null) {
+                        filter[`${fullName}.${value}`] = { $exists: true }
+                    }
+                    break
                 case 'Nin':
                     fieldFilter.$nin = value || []
                     break
@@ -146,9 +447,50 @@ export function toMongoFilter(gqlFilter: unknown, scope = '', filter: any = {}):
                     fieldFilter.$regex = value
                     fieldFilter.$options = 'i'
                     break
+                case 'Near':
+                    if (value) {
+                        checkCoordinates(
+                            (value as { point: types.IGeoPoint }).point?.coordinates,
+                            `${fullName}.Near.point.coordinates`
+                        )
+
+                        fieldFilter.$nearSphere = toNearSphere(value)
+                    }
+                    break
+                case 'WithinCircle':
+                    if (value) {
+                        checkCoordinates(
+                            (value as { center: types.IGeoPoint }).center?.coordinates,
+                            `${fullName}.WithinCircle.center.coordinates`
+                        )
+
+                        fieldFilter.$geoWithin = toCenterSphere(value)
+                    }
+                    break
+                case 'WithinPolygon':
+                    if (value) {
+                        for (const [index, point] of (value as unknown[]).entries()) {
+                            checkCoordinates(point, `${fullName}.WithinPolygon[${index}]`)
+                        }
+
+                        /** Ein Vieleck benötigt mindestens drei unterschiedliche Eckpunkte. */
+                        const ring = closeRing(value)
+
+                        if (ring.length < 4) {
+                            throw createFilterError(
+                                `${fullName}.WithinPolygon`,
+                                value,
+                                'arrayMin',
+                                'must contain at least 3 points'
+                            )
+                        }
+
+                        fieldFilter.$geoWithin = { $geometry: { coordinates: [ring], type: 'Polygon' } }
+                    }
+                    break
                 default:
                     /** Das ist nicht ganz ohne Risiko funktioniert aber sicher, solange GraphQL Felder niemals großgeschrieben werden. */
-                    toMongoFilter(ops, fullName, filter)
+                    toMongoFilter({ [op]: value }, fullName, filter)
                     break
             }
         }
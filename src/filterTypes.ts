@@ -3,11 +3,17 @@
 import * as types from './types'
 
 /** Einschränkende Operationen, die für alle Datentypen angeboten werden. */
-export type standardOperations = 'Eq' | 'Exists' | 'Gt' | 'Gte' | 'Lt' | 'Lte' | 'Neq' | 'In' | 'Nin' | 'All'
+export type standardOperations = 'Eq' | 'Exists' | 'Gt' | 'Gte' | 'Lt' | 'Lte' | 'Neq' | 'In' | 'Nin'
+
+/** Einschränkende Operationen für Felder. */
+export type listOperations = 'All' | 'ElemMatch' | 'Size' | 'SizeGt'
 
 /** Einschränkende Operationen für Zeichenketten. */
 export type stringOperations = standardOperations | 'RegEx'
 
+/** Einschränkende Operationen für Punkte. */
+export type geoOperations = 'Near' | 'WithinCircle' | 'WithinPolygon'
+
 /** Typdefinition für alle einchränkenden Operationen erstellen.
  *
  * @param factory erstellt die Typedefinition für die betroffene Art von Werten.
@@ -28,6 +34,27 @@ export function createStandardFilter<TItem, TFilter extends types.TGqlFilterType
     }
 }
 
+/** Typdefinition für die Einschränkungen auf die Anzahl der Elemente eines Feldes erstellen. */
+export function createSizeFilter() {
+    return {
+        Size: types.GqlNullable(types.GqlInt({ description: 'Exakte Anzahl von Elementen' })),
+        SizeGt: types.GqlNullable(types.GqlInt({ description: 'Mehr Elemente als' })),
+    }
+}
+
+/** Typdefinition für alle einschränkenden Operationen auf einem Feld von Werten erstellen.
+ *
+ * @param factory erstellt die Typedefinition für die Elemente des Feldes.
+ */
+export function createListFilter<TItem, TFilter extends types.TGqlFilterTypes, TLayout, TOptions>(
+    factory: (options: types.IGqlOptionsCommon<TOptions>) => types.GqlBase<TItem, TFilter, TLayout>
+) {
+    return {
+        All: types.GqlNullable(types.GqlArray(factory({ description: 'Alle aus Liste' }))),
+        ...createSizeFilter(),
+    }
+}
+
 /** Erstellt die Typdefinition für alle Operationen auf Zeichenketten. */
 function createStringFilter() {
     return {
@@ -41,6 +68,14 @@ export const GqlBooleanFilter = types.GqlNullable(
     types.GqlObject('BooleanFilter', createStandardFilter(types.GqlBoolean))
 )
 
+/** Operationen auf einem Datum. */
+export const GqlDateFilter = types.GqlNullable(types.GqlObject('DateFilter', createStandardFilter(types.GqlDate)))
+
+/** Operationen auf einem Zeitpunkt. */
+export const GqlDateTimeFilter = types.GqlNullable(
+    types.GqlObject('DateTimeFilter', createStandardFilter(types.GqlDateTime))
+)
+
 /** Operationen auf Fließkommazahlen. */
 export const GqlFloatFilter = types.GqlNullable(types.GqlObject('FloatFilter', createStandardFilter(types.GqlFloat)))
 
@@ -50,8 +85,78 @@ export const GqlIntFilter = types.GqlNullable(types.GqlObject('IntFilter', creat
 /** Operationen auf Zeichenketten. */
 export const GqlStringFilter = types.GqlNullable(types.GqlObject('StringFilter', createStringFilter()))
 
+/** Operationen auf Punkten - alle Entfernungen werden in Metern angegeben. */
+export const GqlGeoFilter = types.GqlNullable(
+    types.GqlObject('GeoFilter', {
+        Near: types.GqlNullable(
+            types.GqlObject(
+                'GeoNear',
+                {
+                    maxDistance: types.GqlNullable(types.GqlFloat({ description: 'Maximale Entfernung.' })),
+                    minDistance: types.GqlNullable(types.GqlFloat({ description: 'Minimale Entfernung.' })),
+                    point: types.GqlGeoPoint({ description: 'Der Bezugspunkt.' }),
+                },
+                { description: 'In der Nähe eines Punktes' }
+            )
+        ),
+        WithinCircle: types.GqlNullable(
+            types.GqlObject(
+                'GeoCircle',
+                {
+                    center: types.GqlGeoPoint({ description: 'Der Mittelpunkt.' }),
+                    radius: types.GqlFloat({ description: 'Der Radius.' }),
+                },
+                { description: 'Innerhalb eines Kreises' }
+            )
+        ),
+        WithinPolygon: types.GqlNullable(
+            types.GqlArray(types.GqlArray(types.GqlFloat()), {
+                description: 'Innerhalb eines Vielecks aus Längen- und Breitengraden',
+            })
+        ),
+    })
+)
+
+/** Operationen auf Feldern von Wahrheitswerten. */
+export const GqlBooleanListFilter = types.GqlNullable(
+    types.GqlObject('BooleanListFilter', {
+        ...createStandardFilter(types.GqlBoolean),
+        ...createListFilter(types.GqlBoolean),
+    })
+)
+
+/** Operationen auf Feldern von Datumswerten. */
+export const GqlDateListFilter = types.GqlNullable(
+    types.GqlObject('DateListFilter', { ...createStandardFilter(types.GqlDate), ...createListFilter(types.GqlDate) })
+)
+
+/** Operationen auf Feldern von Zeitpunkten. */
+export const GqlDateTimeListFilter = types.GqlNullable(
+    types.GqlObject('DateTimeListFilter', {
+        ...createStandardFilter(types.GqlDateTime),
+        ...createListFilter(types.GqlDateTime),
+    })
+)
+
+/** Operationen auf Feldern von Fließkommazahlen. */
+export const GqlFloatListFilter = types.GqlNullable(
+    types.GqlObject('FloatListFilter', { ...createStandardFilter(types.GqlFloat), ...createListFilter(types.GqlFloat) })
+)
+
+/** Operationen auf Feldern von ganzen Zahlen. */
+export const GqlIntListFilter = types.GqlNullable(
+    types.GqlObject('IntListFilter', { ...createStandardFilter(types.GqlInt), ...createListFilter(types.GqlInt) })
+)
+
+/** Operationen auf Feldern von Zeichenketten. */
+export const GqlStringListFilter = types.GqlNullable(
+    types.GqlObject('StringListFilter', { ...createStringFilter(), ...createListFilter(types.GqlString) })
+)
+
 /** Die Schnittstellen der Filtertypdefinitionen. */
 export type IBoolFilter = types.TGqlType<typeof GqlBooleanFilter>
+export type IDateFilter = types.TGqlType<typeof GqlDateFilter>
+export type IGeoFilter = types.TGqlType<typeof GqlGeoFilter>
 export type IFloatFilter = types.TGqlType<typeof GqlFloatFilter>
 export type IIntFilter = types.TGqlType<typeof GqlIntFilter>
 export type IStringFilter = types.TGqlType<typeof GqlStringFilter>
@@ -74,17 +179,43 @@ type TGetFilterType<TItem, TFilter, TLayout> = TFilter extends 'string'
     ? IFloatFilter
     : TFilter extends 'boolean'
     ? IBoolFilter
+    : TFilter extends 'date'
+    ? IDateFilter
     : TFilter extends 'enum'
     ? TMakeStandardEnumFilter<TItem>
+    : TFilter extends 'geo'
+    ? IGeoFilter
     : TFilter extends 'object'
-    ? { [field in keyof TLayout]?: TGqlFilterHelper<TLayout[field]> }
+    ? TWithLogicalOperations<{ [field in keyof TLayout]?: TGqlFilterHelper<TLayout[field]> }>
+    : TFilter extends 'reference'
+    ? TGqlFilter<TLayout>
     : never
 
+/** Ergänzt die Beschreibung eines Filters auf einem Objekt um die logischen Operationen. */
+type TWithLogicalOperations<TFilter> = TFilter & {
+    And?: TWithLogicalOperations<TFilter>[]
+    Nor?: TWithLogicalOperations<TFilter>[]
+    Not?: TWithLogicalOperations<TFilter>
+    Or?: TWithLogicalOperations<TFilter>[]
+}
+
+/** Hilfstyp für die Operationen auf einem gesamten Feld. */
+type TListOperations<TElement, TFilter, TLayout> = { Size?: number; SizeGt?: number } & (TFilter extends 'object'
+    ? { ElemMatch?: TGetFilterType<TElement, TFilter, TLayout> }
+    : TFilter extends 'reference'
+    ? unknown
+    : { All?: TElement[] })
+
+/** Bei Feldern werden die Operationen auf den Elementen um Operationen auf dem gesamten Feld ergänzt. */
+type TGetListFilterType<TItem, TFilter, TLayout> = NonNullable<TItem> extends (infer TElement)[]
+    ? TGetFilterType<TElement, TFilter, TLayout> & TListOperations<TElement, TFilter, TLayout>
+    : TGetFilterType<TItem, TFilter, TLayout>
+
 /** Erstellt die Beschreibung eines Filters - das mit dem Einmischen der logischen Operationen ist etwas aufwändiger. */
-type TGqlFilterHelper<TGql> = TGetFilterType<
+type TGqlFilterHelper<TGql> = TGetListFilterType<
     types.TGqlType<TGql>,
     types.TGqlFilterType<TGql>,
     types.TGqlLayoutType<TGql>
 >
 
-export type TGqlFilter<TGql> = TGqlFilterHelper<TGql> & { And?: TGqlFilter<TGql>[]; Or?: TGqlFilter<TGql>[] }
+export type TGqlFilter<TGql> = TWithLogicalOperations<TGqlFilterHelper<TGql>>
@@ -0,0 +1,76 @@
+/* eslint-disable @typescript-eslint/explicit-function-return-type */
+
+import * as mongodb from 'mongodb'
+
+import { TChangeKind } from './changes'
+import * as types from './types'
+
+/** Eine einzelne Version einer Entität, wie sie in der Datenbank abgelegt wird. */
+export interface IRevision<TItem> {
+    /** Die eindeutige Kennung der Version. */
+    _id: string
+    /** Wer die Veränderung durchgeführt hat, sofern bekannt. */
+    changedBy: string | null
+    /** Die eindeutige Kennung der veränderten Entität. */
+    item: string
+    /** Die Art der Veränderung. */
+    kind: TChangeKind
+    /** Die laufende Nummer der Version, beginnend mit 1. */
+    revision: number
+    /** Der Zustand der Entität nach der Veränderung - beim Entfernen der letzte Zustand. */
+    snapshot: TItem
+    /** Der Zeitpunkt der Veränderung. */
+    timestamp: Date
+}
+
+/** Die Indexe der Versionen - jede laufende Nummer darf zu einer Entität nur einmal vergeben werden. */
+export const revisionIndexes: mongodb.IndexDescription[] = [
+    { key: { item: 1, revision: 1 }, name: 'item_1_revision_1', unique: true },
+]
+
+/** Typdefinition für die Arten von Veränderungen. */
+export const ChangeKind = types.GqlEnum(
+    'ChangeKind',
+    { added: 'added', removed: 'removed', updated: 'updated' },
+    { description: 'Die Art einer Veränderung an einer Entität.' }
+)
+
+/** Bereits erstellte Versionen - jeder GraphQL Typ darf nur einmal angelegt werden. */
+const revisionTypes = new WeakMap<object, unknown>()
+
+/**
+ * Erstellt die Typdefinition für die Versionen einer Entität.
+ *
+ * @param type die Typdefinition der Entität.
+ */
+export function GqlRevision<TItem, TLayout>(type: types.GqlRecord<TItem, TLayout>) {
+    /** Die Versionen können mehrfach angefordert werden. */
+    if (revisionTypes.has(type)) {
+        return revisionTypes.get(type) as ReturnType<typeof createRevision<TItem, TLayout>>
+    }
+
+    const revision = createRevision(type)
+
+    revisionTypes.set(type, revision)
+
+    return revision
+}
+
+/**
+ * Erstellt die Typdefinition für die Versionen.
+ *
+ * @param type die Typdefinition der Entität.
+ */
+function createRevision<TItem, TLayout>(type: types.GqlRecord<TItem, TLayout>) {
+    return types.GqlObject(
+        `${type.graphQLType.name}Revision`,
+        {
+            changedBy: types.GqlNullable(types.GqlString({ description: 'Wer die Veränderung durchgeführt hat.' })),
+            kind: ChangeKind,
+            revision: types.GqlInt({ description: 'Die laufende Nummer der Version.' }),
+            snapshot: type,
+            timestamp: types.GqlDateTime({ description: 'Der Zeitpunkt der Veränderung.' }),
+        },
+        { description: 'Eine einzelne Version einer Entität.' }
+    )
+}
@@ -1,8 +1,16 @@
+export { ICaller, TGetCaller } from './authorization'
+
+export { TChangeKind } from './changes'
+
 export * from './enum'
 
+export { IFieldError, TErrorCode } from './errors'
+
 export {
     IBoolFilter,
+    IDateFilter,
     IFloatFilter,
+    IGeoFilter,
     IIntFilter,
     IStringFilter,
     standardOperations,
@@ -10,18 +18,39 @@ export {
     TGqlFilter,
 } from './filterTypes'
 
+export { ICreateCollectionOptions, IDatabaseChangeStream, IDatabaseCollection, IDatabaseCursor } from './connection'
+
+export { IRevision } from './history'
+
+export { IIndexReport } from './indexes'
+
 export {
+    IMethodOptions,
     IMethodRegistration,
+    ISubscriptionRegistration,
     TCollection,
     TGetFilterArgs,
     TGetMethodArgs,
     TGetMethodResult,
 } from './methods'
 
+export { IReferenceTarget, TGetReferenceTarget } from './reference'
+
+export { ISchemaOptions } from './schema'
+
+export { ISchemaChange, TSchemaChangeKind } from './sdl'
+
+export { IUpdateOperations } from './update'
+
 export {
+    IGeoPoint,
+    IGqlAccess,
+    IGqlIndex,
     IGqlObjectLayout,
+    IGqlObjectOptions,
     IGqlOptions,
     IGqlOptionsCommon,
+    IGqlSoftDeleteOptions,
     TGqlFilterType,
     TGqlFilterTypes,
     TGqlLayoutType,
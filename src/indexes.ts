@@ -0,0 +1,294 @@
+import * as mongodb from 'mongodb'
+
+import { IDatabaseCollection } from './connection'
+import { bsonTypes } from './jsonSchema'
+import { GqlRecord, IGqlObjectLayout, isGeoPoint } from './types'
+
+/** Das Ergebnis eines Abgleichs der Indexe mit der Datenbank. */
+export interface IIndexReport {
+    /** Die Namen aller Indexe, die in der Datenbank mit anderen Einstellungen existieren - diese werden nur auf Wunsch neu angelegt. */
+    changed: string[]
+    /** Die Namen aller Indexe, die nur in der Datenbank existieren - diese werden niemals automatisch entfernt. */
+    extra: string[]
+    /** Die Namen aller Indexe, die in der Datenbank fehlen. */
+    missing: string[]
+}
+
+/**
+ * Ermittelt den Namen eines Index so, wie MongoDb ihn auch selbst vergeben würde.
+ *
+ * @param key die Felder des Index.
+ */
+function getIndexName(key: Record<string, mongodb.IndexDirection>): string {
+    return Object.keys(key)
+        .map((field) => `${field}_${key[field]}`)
+        .join('_')
+}
+
+/**
+ * Ermittelt die Bedingung für einen eindeutigen Index auf einem optionalen Feld. In den Index werden nur
+ * tatsächliche Werte aufgenommen, so dass beliebig viele Entitäten ohne Wert - fehlend oder explizit leer -
+ * erlaubt sind. Da MongoDb in dieser Bedingung weder $ne noch $not unterstützt, werden die Datentypen des
+ * Feldes angegeben.
+ *
+ * @param path der Pfad zum Feld.
+ * @param rule die Prüfregel des Feldes.
+ */
+function getPartialFilter(path: string, rule: mongodb.Document): mongodb.Document {
+    /** Bei Aufzählungen ergeben sich die Datentypen aus den erlaubten Werten. */
+    const candidates: string[] =
+        rule.type === 'enum'
+            ? (rule.values || []).map((value: unknown) => bsonTypes[typeof value])
+            : [bsonTypes[rule.type]]
+    const types = Array.from(new Set(candidates.filter((type) => type)))
+
+    /** Ist der Datentyp unbekannt, werden zumindest fehlende Werte nicht in den Index aufgenommen. */
+    if (types.length < 1) {
+        return { [path]: { $exists: true } }
+    }
+
+    return { [path]: { $type: types.length === 1 ? types[0] : types.sort() } }
+}
+
+/**
+ * Ermittelt alle Indexe, die an den einzelnen Feldern angemeldet sind.
+ *
+ * @param layout die Struktur des Objektes.
+ * @param prefix der Pfad zum Objekt.
+ * @param add meldet einen Index an.
+ */
+function collectFieldIndexes(
+    layout: IGqlObjectLayout,
+    prefix: string,
+    add: (index: mongodb.IndexDescription) => void
+): void {
+    for (const field of Object.keys(layout || {})) {
+        const gql = layout[field]
+
+        if (!gql) {
+            continue
+        }
+
+        const path = `${prefix}${field}`
+
+        if (gql.options.unique || gql.options.index) {
+            const rule: mongodb.Document = gql.options.validation || {}
+
+            add({
+                key: { [path]: 1 },
+                partialFilterExpression: gql.options.unique && rule.optional ? getPartialFilter(path, rule) : undefined,
+                unique: gql.options.unique || undefined,
+            })
+        }
+
+        /** Die Suche nach Punkten ist nur mit einem passenden Index möglich. */
+        if (isGeoPoint(gql)) {
+            add({ key: { [path]: '2dsphere' } })
+        } else if (gql instanceof GqlRecord) {
+            /** Bei Unterobjekten werden auch deren Felder berücksichtigt. */
+            collectFieldIndexes(gql.layout as IGqlObjectLayout, `${path}.`, add)
+        }
+    }
+}
+
+/**
+ * Ermittelt die Gewichtungen aller Felder in der Volltextsuche.
+ *
+ * @param layout die Struktur des Objektes.
+ * @param prefix der Pfad zum Objekt.
+ * @param weights die Gewichtungen aller bisher gefundenen Felder.
+ */
+function collectTextWeights(
+    layout: IGqlObjectLayout,
+    prefix = '',
+    weights: Record<string, number> = {}
+): Record<string, number> {
+    for (const field of Object.keys(layout || {})) {
+        const gql = layout[field]
+
+        if (!gql) {
+            continue
+        }
+
+        const path = `${prefix}${field}`
+        const { searchable } = gql.options
+
+        if (searchable) {
+            weights[path] = typeof searchable === 'number' ? searchable : 1
+        }
+
+        /** Bei Unterobjekten werden auch deren Felder berücksichtigt. */
+        if (gql instanceof GqlRecord) {
+            collectTextWeights(gql.layout as IGqlObjectLayout, `${path}.`, weights)
+        }
+    }
+
+    return weights
+}
+
+/**
+ * Ermittelt die Gewichtungen aller Felder, die in die Volltextsuche einbezogen werden.
+ *
+ * @param model die Typdefinition der Entitäten.
+ */
+export function getTextWeights(model: GqlRecord<unknown, unknown>): Record<string, number> {
+    return collectTextWeights(model.layout as IGqlObjectLayout)
+}
+
+/**
+ * Ermittelt alle Indexe, die sich aus einer Typdefinition ergeben. Neben den explizit
+ * angemeldeten Indexen wird für jedes sortierbare Feld ein Index angelegt, ebenso für
+ * den fachlichen Schlüssel und für Punkte.
+ *
+ * @param model die Typdefinition der Entitäten.
+ */
+export function getIndexes(model: GqlRecord<unknown, unknown>): mongodb.IndexDescription[] {
+    const indexes = new Map<string, mongodb.IndexDescription>()
+
+    const add = (index: mongodb.IndexDescription) => {
+        const name = index.name || getIndexName(index.key as Record<string, mongodb.IndexDirection>)
+
+        /** Überflüssige Angaben weglassen, damit der Vergleich mit der Datenbank einfach bleibt. */
+        for (const option of Object.keys(index) as (keyof mongodb.IndexDescription)[]) {
+            if (index[option] === undefined) {
+                delete index[option]
+            }
+        }
+
+        if (!indexes.has(name)) {
+            indexes.set(name, { ...index, name })
+        }
+    }
+
+    const { indexes: explicit, naturalKey } = model.objectOptions
+
+    for (const index of explicit || []) {
+        add({
+            expireAfterSeconds: index.expireAfterSeconds,
+            key: index.fields,
+            name: index.name,
+            unique: index.unique,
+        })
+    }
+
+    if (naturalKey?.length) {
+        add({ key: Object.fromEntries(naturalKey.map((field) => [field, 1])), unique: true })
+    }
+
+    collectFieldIndexes(model.layout as IGqlObjectLayout, '', add)
+
+    /** MongoDb erlaubt nur einen einzigen Index für die Volltextsuche - bei Veränderungen wird der alte Index ersetzt. */
+    const weights = getTextWeights(model)
+    const searchable = Object.keys(weights)
+
+    if (searchable.length > 0) {
+        add({ key: Object.fromEntries(searchable.map((field) => [field, 'text'])), weights })
+    }
+
+    /** Bei der Sortierung wird auf unterster Ebene immer nach der eindeutigen Kennung sortiert. */
+    for (const field of Array.isArray(model.sortable) ? model.sortable : []) {
+        add({ key: { [field]: 1, _id: 1 } })
+    }
+
+    return Array.from(indexes.values())
+}
+
+/**
+ * Prüft, ob ein Index in der Datenbank einem gewünschten Index entspricht.
+ *
+ * @param expected der gewünschte Index.
+ * @param existing der Index in der Datenbank.
+ */
+function isSameIndex(expected: mongodb.IndexDescription, existing: mongodb.Document): boolean {
+    /** Bei der Volltextsuche meldet MongoDb die Felder nur über die Gewichtungen. */
+    if (expected.weights) {
+        const sorted = (weights: mongodb.Document) => JSON.stringify(Object.entries(weights || {}).sort())
+
+        return existing.key?._fts === 'text' && sorted(expected.weights) === sorted(existing.weights)
+    }
+
+    return (
+        JSON.stringify(expected.key) === JSON.stringify(existing.key) &&
+        !!expected.unique === !!existing.unique &&
+        !!expected.sparse === !!existing.sparse &&
+        JSON.stringify(expected.partialFilterExpression) === JSON.stringify(existing.partialFilterExpression) &&
+        expected.expireAfterSeconds === existing.expireAfterSeconds
+    )
+}
+
+/**
+ * Gleicht die gewünschten Indexe mit der Datenbank ab und legt fehlende Indexe an. Ein gleichnamiger
+ * Index mit anderen Einstellungen wird auf Wunsch entfernt und neu angelegt, ebenso ein veränderter Index
+ * für die Volltextsuche.
+ *
+ * @param collection die Collection (Tabelle) in der Datenbank.
+ * @param expected alle gewünschten Indexe.
+ * @param dryRun gesetzt, um die Abweichungen nur zu melden.
+ * @param recreate gesetzt, um Indexe mit veränderten Einstellungen neu anzulegen - ansonsten werden diese nur gemeldet.
+ */
+export async function applyIndexes<TItem extends mongodb.Document>(
+    collection: IDatabaseCollection<TItem>,
+    expected: mongodb.IndexDescription[],
+    dryRun = false,
+    recreate = true
+): Promise<IIndexReport> {
+    let existing: mongodb.Document[]
+
+    try {
+        existing = await collection.listIndexes().toArray()
+    } catch (error) {
+        /** Die Collection existiert noch gar nicht. */
+        if (!(error instanceof mongodb.MongoServerError) || error.code !== 26) {
+            throw error
+        }
+
+        existing = []
+    }
+
+    const report: IIndexReport = { changed: [], extra: [], missing: [] }
+    const create: mongodb.IndexDescription[] = []
+    const drop: string[] = []
+    const found = new Set<mongodb.Document>()
+
+    for (const index of expected) {
+        const same = existing.find((e) => isSameIndex(index, e))
+
+        if (same) {
+            found.add(same)
+
+            continue
+        }
+
+        /** MongoDb lehnt einen Index ab, dessen Name bereits mit anderen Einstellungen vergeben ist - oder einen zweiten Index für die Volltextsuche. */
+        const previous = existing.find((e) => e.name === index.name || (index.weights && e.key?._fts === 'text'))
+
+        if (previous) {
+            found.add(previous)
+            report.changed.push(index.name)
+
+            if (!recreate) {
+                continue
+            }
+
+            drop.push(previous.name)
+        } else {
+            report.missing.push(index.name)
+        }
+
+        create.push(index)
+    }
+
+    report.extra = existing.filter((e) => e.name !== '_id_' && !found.has(e)).map((e) => e.name)
+
+    if (!dryRun) {
+        for (const name of drop) {
+            await collection.dropIndex(name)
+        }
+
+        if (create.length > 0) {
+            await collection.createIndexes(create)
+        }
+    }
+
+    return report
+}
@@ -0,0 +1,199 @@
+import * as mongodb from 'mongodb'
+
+import { GqlBase, GqlList, GqlRecord, IGqlObjectLayout, TGqlFilterTypes } from './types'
+
+/** Die Datentypen in der Datenbank zu den einfachen Prüfregeln. */
+export const bsonTypes: Record<string, string> = {
+    boolean: 'bool',
+    date: 'date',
+    email: 'string',
+    number: 'number',
+    string: 'string',
+    url: 'string',
+    uuid: 'string',
+}
+
+/**
+ * Übernimmt die Längenangaben einer Prüfregel.
+ *
+ * @param rule die Prüfregel.
+ * @param schema die Beschreibung für die Datenbank.
+ * @param min der Name der Mindestlänge in der Beschreibung.
+ * @param max der Name der Maximallänge in der Beschreibung.
+ */
+function convertLength(rule: mongodb.Document, schema: mongodb.Document, min: string, max: string): void {
+    if (typeof rule.length === 'number') {
+        schema[min] = schema[max] = rule.length
+    }
+
+    if (typeof rule.min === 'number') {
+        schema[min] = rule.min
+    }
+
+    if (typeof rule.max === 'number') {
+        schema[max] = rule.max
+    }
+}
+
+/**
+ * Wandelt eine einfache Prüfregel in eine Beschreibung für die Datenbank um.
+ *
+ * @param rule die Prüfregel des fastest-validator.
+ */
+function convertRule(rule: mongodb.Document): mongodb.Document {
+    const schema: mongodb.Document = {}
+    const bsonType = bsonTypes[rule.type]
+
+    if (bsonType) {
+        schema.bsonType = bsonType
+    }
+
+    switch (rule.type) {
+        case 'string':
+            convertLength(rule, schema, 'minLength', 'maxLength')
+
+            if (rule.empty === false && !(schema.minLength > 0)) {
+                schema.minLength = 1
+            }
+
+            if (rule.pattern) {
+                schema.pattern = rule.pattern instanceof RegExp ? rule.pattern.source : rule.pattern
+            }
+
+            if (Array.isArray(rule.enum)) {
+                schema.enum = rule.enum
+            }
+            break
+        case 'number':
+            if (typeof rule.min === 'number') {
+                schema.minimum = rule.min
+            }
+
+            if (typeof rule.max === 'number') {
+                schema.maximum = rule.max
+            }
+
+            if (rule.integer) {
+                schema.multipleOf = 1
+            }
+
+            if (rule.equal !== undefined) {
+                schema.enum = [rule.equal]
+            }
+            break
+        case 'enum':
+            schema.enum = rule.values
+            break
+    }
+
+    return schema
+}
+
+/**
+ * Wandelt eine Typdefinition in eine Beschreibung für die Datenbank um.
+ *
+ * @param type die Typdefinition.
+ */
+function convertType(type: GqlBase<unknown, TGqlFilterTypes, unknown>): mongodb.Document {
+    const rule: mongodb.Document = type.options.validation || {}
+
+    let schema: mongodb.Document
+
+    if (type instanceof GqlRecord) {
+        schema = convertObject(type)
+    } else if (type instanceof GqlList) {
+        schema = { bsonType: 'array', items: convertType(type.item) }
+
+        convertLength(rule, schema, 'minItems', 'maxItems')
+    } else {
+        schema = convertRule(rule)
+    }
+
+    /** Optionale Felder können in der Datenbank auch explizit leer sein. */
+    if (rule.optional && schema.bsonType) {
+        schema.bsonType = [schema.bsonType, 'null']
+    }
+
+    if (rule.optional && schema.enum) {
+        schema.enum = [...schema.enum, null]
+    }
+
+    if (type.options.description) {
+        schema.description = type.options.description
+    }
+
+    return schema
+}
+
+/**
+ * Wandelt die Typdefinition eines Objektes in eine Beschreibung für die Datenbank um.
+ *
+ * @param type die Typdefinition.
+ */
+function convertObject(type: GqlRecord<unknown, unknown>): mongodb.Document {
+    const layout = (type.layout || {}) as IGqlObjectLayout
+    const properties: Record<string, mongodb.Document> = {}
+    const required: string[] = []
+
+    for (const field of Object.keys(layout)) {
+        const gql = layout[field]
+
+        if (!gql) {
+            continue
+        }
+
+        properties[field] = convertType(gql)
+
+        /** Berechnete Felder müssen nicht unbedingt in der Datenbank abgelegt sein - mit Ausnahme der eindeutigen Kennung. */
+        if (!gql.options.validation?.optional && (!gql.options.computed || field === '_id')) {
+            required.push(field)
+        }
+    }
+
+    const schema: mongodb.Document = { bsonType: 'object', properties }
+
+    /** Wie bei der Prüfung sind keine zusätzlichen Felder erlaubt. */
+    if ((type.options.validation as mongodb.Document)?.strict === true) {
+        schema.additionalProperties = false
+    }
+
+    if (required.length > 0) {
+        schema.required = required
+    }
+
+    return schema
+}
+
+/**
+ * Erstellt aus einer Typdefinition die Beschreibung für eine Prüfung in der Datenbank.
+ *
+ * @param model die Typdefinition der Entitäten.
+ */
+export function toJsonSchema(model: GqlRecord<unknown, unknown>): mongodb.Document {
+    return convertObject(model)
+}
+
+/**
+ * Hinterlegt die Prüfung einer Collection (Tabelle) in der Datenbank - eine noch nicht
+ * existierende Collection wird dabei angelegt.
+ *
+ * @param database die Datenbank.
+ * @param name der Name der Collection.
+ * @param schema die Beschreibung der Prüfung.
+ * @param validationLevel legt fest, ob auch bereits ungültige Entitäten geprüft werden.
+ */
+export async function applyJsonSchema(
+    database: mongodb.Db,
+    name: string,
+    schema: mongodb.Document,
+    validationLevel: 'moderate' | 'strict'
+): Promise<void> {
+    const validator = { $jsonSchema: schema }
+    const existing = await database.listCollections({ name }, { nameOnly: true }).toArray()
+
+    if (existing.length > 0) {
+        await database.command({ collMod: name, validationLevel, validator })
+    } else {
+        await database.createCollection(name, { validationLevel, validator })
+    }
+}
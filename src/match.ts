@@ -0,0 +1,494 @@
+import { Document, Filter } from 'mongodb'
+
+/**
+ * Ermittelt alle Werte eines Feldes - wobei wie in MongoDb beim Durchlaufen der
+ * Hierarchie alle Elemente von Feldern einzeln berücksichtigt werden.
+ *
+ * @param item das zu untersuchende Objekt.
+ * @param path der Name des Feldes, Unterobjekte werden durch Punkte getrennt.
+ */
+function getValues(item: unknown, path: string[]): unknown[] {
+    if (path.length < 1) {
+        return [item]
+    }
+
+    if (Array.isArray(item)) {
+        /** Ein numerischer Name spricht ein bestimmtes Element an. */
+        if (/^\d+$/.test(path[0])) {
+            return getValues(item[parseInt(path[0], 10)], path.slice(1))
+        }
+
+        return item.reduce<unknown[]>((all, element) => [...all, ...getValues(element, path)], [])
+    }
+
+    if (item === null || typeof item !== 'object') {
+        return [undefined]
+    }
+
+    return getValues((item as Record<string, unknown>)[path[0]], path.slice(1))
+}
+
+/** Vergleicht zwei Werte nach einer vereinfachten Variante der Regeln von MongoDb. */
+function compare(left: unknown, right: unknown): number | undefined {
+    if (left instanceof Date && right instanceof Date) {
+        return left.getTime() - right.getTime()
+    }
+
+    if (typeof left === 'number' && typeof right === 'number') {
+        return left - right
+    }
+
+    if (typeof left === 'string' && typeof right === 'string') {
+        return left < right ? -1 : left > right ? +1 : 0
+    }
+
+    if (typeof left === 'boolean' && typeof right === 'boolean') {
+        return Number(left) - Number(right)
+    }
+
+    /** Unterschiedliche Arten von Werten sind nicht vergleichbar. */
+    return undefined
+}
+
+/** Prüft zwei Werte auf Gleichheit, wobei auch Objekte und Felder vollständig verglichen werden. */
+function equals(left: unknown, right: unknown): boolean {
+    if (left === undefined) {
+        left = null
+    }
+
+    if (right === undefined) {
+        right = null
+    }
+
+    if (left === right) {
+        return true
+    }
+
+    if (left instanceof Date || right instanceof Date) {
+        return compare(left, right) === 0
+    }
+
+    if (Array.isArray(left) || Array.isArray(right)) {
+        if (!Array.isArray(left) || !Array.isArray(right) || left.length !== right.length) {
+            return false
+        }
+
+        return left.every((element, index) => equals(element, right[index]))
+    }
+
+    if (!left || !right || typeof left !== 'object' || typeof right !== 'object') {
+        return false
+    }
+
+    const leftKeys = Object.keys(left)
+
+    if (leftKeys.length !== Object.keys(right).length) {
+        return false
+    }
+
+    return leftKeys.every((key) => equals((left as Document)[key], (right as Document)[key]))
+}
+
+/** Ergänzt die Werte eines Feldes um die Elemente, wenn es sich um Felder handelt. */
+function expand(values: unknown[]): unknown[] {
+    return values.reduce<unknown[]>(
+        (all, value) => (Array.isArray(value) ? [...all, value, ...value] : [...all, value]),
+        []
+    )
+}
+
+/** Der Erdradius am Äquator in Metern, wie ihn auch MongoDb für Entfernungen verwendet. */
+const earthRadius = 6378100
+
+/**
+ * Ermittelt die Koordinaten eines Punktes im GeoJSON Format.
+ *
+ * @param value der mögliche Punkt.
+ */
+function getCoordinates(value: unknown): [number, number] | undefined {
+    const point = value as Document | null
+
+    return point?.type === 'Point' && Array.isArray(point.coordinates)
+        ? (point.coordinates as [number, number])
+        : undefined
+}
+
+/**
+ * Berechnet die Entfernung zweier Punkte auf der Erdoberfläche in Metern.
+ *
+ * @param from Längen- und Breitengrad des ersten Punktes.
+ * @param to Längen- und Breitengrad des zweiten Punktes.
+ */
+function getDistance(from: number[], to: number[]): number {
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+
+    const dLat = toRadians(to[1] - from[1])
+    const dLon = toRadians(to[0] - from[0])
+    const a =
+        Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(from[1])) * Math.cos(toRadians(to[1])) * Math.sin(dLon / 2) ** 2
+
+    return 2 * earthRadius * Math.asin(Math.min(1, Math.sqrt(a)))
+}
+
+/**
+ * Prüft vereinfacht in der Ebene, ob ein Punkt innerhalb eines Vielecks liegt.
+ *
+ * @param point Längen- und Breitengrad des Punktes.
+ * @param ring die Eckpunkte des Vielecks.
+ */
+function isInPolygon(point: number[], ring: number[][]): boolean {
+    let inside = false
+
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [xi, yi] = ring[i]
+        const [xj, yj] = ring[j]
+
+        if (yi > point[1] !== yj > point[1] && point[0] < ((xj - xi) * (point[1] - yi)) / (yj - yi) + xi) {
+            inside = !inside
+        }
+    }
+
+    return inside
+}
+
+/**
+ * Prüft, ob ein Punkt innerhalb einer Fläche liegt.
+ *
+ * @param point Längen- und Breitengrad des Punktes.
+ * @param area die Fläche - ein Kreis oder ein Vieleck.
+ */
+function isWithin(point: number[], area: Document): boolean {
+    if (area.$centerSphere) {
+        const [center, radius] = area.$centerSphere
+
+        return getDistance(point, center) <= radius * earthRadius
+    }
+
+    if (area.$geometry?.type === 'Polygon') {
+        return isInPolygon(point, area.$geometry.coordinates[0])
+    }
+
+    throw new Error('unsupported geo area')
+}
+
+/**
+ * Prüft eine einzelne Operation auf einem Feld.
+ *
+ * @param values alle Werte des Feldes.
+ * @param op die Operation.
+ * @param arg der Parameter der Operation.
+ * @param ops alle Operationen auf dem Feld.
+ */
+function matchOperation(values: unknown[], op: string, arg: unknown, ops: Document): boolean {
+    const candidates = expand(values)
+
+    switch (op) {
+        case '$eq':
+            return candidates.some((value) => equals(value, arg))
+        case '$ne':
+            return !candidates.some((value) => equals(value, arg))
+        case '$lt':
+            return candidates.some((value) => compare(value, arg) < 0)
+        case '$lte':
+            return candidates.some((value) => compare(value, arg) <= 0)
+        case '$gt':
+            return candidates.some((value) => compare(value, arg) > 0)
+        case '$gte':
+            return candidates.some((value) => compare(value, arg) >= 0)
+        case '$in':
+            return (arg as unknown[]).some((test) => candidates.some((value) => equals(value, test)))
+        case '$nin':
+            return !(arg as unknown[]).some((test) => candidates.some((value) => equals(value, test)))
+        case '$all':
+            return values.some(
+                (value) =>
+                    Array.isArray(value) && (arg as unknown[]).every((test) => value.some((e) => equals(e, test)))
+            )
+        case '$exists':
+            return values.some((value) => value !== undefined) === !!arg
+        case '$size':
+            return values.some((value) => Array.isArray(value) && value.length === arg)
+        case '$type':
+            if (arg !== 'array') {
+                throw new Error(`unsupported type ${arg}`)
+            }
+
+            return values.some((value) => Array.isArray(value))
+        case '$elemMatch':
+            return values.some(
+                (value) => Array.isArray(value) && value.some((e) => matchFilter(e, arg as Filter<unknown>))
+            )
+        case '$regex': {
+            const pattern = new RegExp(arg as string, ops.$options || '')
+
+            return candidates.some((value) => typeof value === 'string' && pattern.test(value))
+        }
+        case '$options':
+            return true
+        case '$not':
+            return !matchOperations(values, arg)
+        case '$nearSphere': {
+            const near = arg as Document
+
+            return candidates.some((value) => {
+                const point = getCoordinates(value)
+                const distance = point && getDistance(point, near.$geometry.coordinates)
+
+                return !!point && !(distance > near.$maxDistance) && !(distance < near.$minDistance)
+            })
+        }
+        case '$geoWithin':
+            return candidates.some((value) => {
+                const point = getCoordinates(value)
+
+                return !!point && isWithin(point, arg as Document)
+            })
+        default:
+            throw new Error(`unsupported filter operation ${op}`)
+    }
+}
+
+/**
+ * Prüft, ob die Bedingung auf einem Feld aus Operationen besteht - ansonsten handelt es sich um einen Vergleichswert.
+ *
+ * @param ops die Operationen oder ein Vergleichswert.
+ */
+function isOperations(ops: unknown): ops is Document {
+    return (
+        ops !== null &&
+        typeof ops === 'object' &&
+        !Array.isArray(ops) &&
+        !(ops instanceof Date) &&
+        Object.keys(ops).some((op) => op.startsWith('$'))
+    )
+}
+
+/**
+ * Prüft alle Operationen auf einem Feld.
+ *
+ * @param values alle Werte des Feldes.
+ * @param ops die Operationen oder ein Vergleichswert.
+ */
+function matchOperations(values: unknown[], ops: unknown): boolean {
+    /** Ohne Operationen wird auf Gleichheit geprüft. */
+    if (!isOperations(ops)) {
+        return matchOperation(values, '$eq', ops, {})
+    }
+
+    return Object.keys(ops).every((op) => matchOperation(values, op, ops[op], ops))
+}
+
+/**
+ * Sammelt alle Zeichenketten in einem Objekt.
+ *
+ * @param value das zu untersuchende Objekt.
+ * @param all alle bisher gefundenen Zeichenketten.
+ */
+function collectStrings(value: unknown, all: string[] = []): string[] {
+    if (typeof value === 'string') {
+        all.push(value)
+    } else if (value && typeof value === 'object' && !(value instanceof Date)) {
+        Object.values(value).forEach((v) => collectStrings(v, all))
+    }
+
+    return all
+}
+
+/**
+ * Ermittelt vereinfacht die Relevanz eines Objektes für eine Volltextsuche - dabei werden
+ * alle Zeichenketten ohne Gewichtung und Wortstämme berücksichtigt. Wie in MongoDb müssen
+ * Phrasen in Anführungszeichen enthalten sein und Begriffe mit einem Minus fehlen.
+ *
+ * @param item das zu prüfende Objekt.
+ * @param search die gesuchten Begriffe.
+ */
+export function getTextScore(item: unknown, search: string): number {
+    const text = collectStrings(item).join(' ').toLowerCase()
+    const words = text.split(/[^\p{L}\p{N}]+/u)
+
+    let score = 0
+
+    for (const term of search.toLowerCase().match(/-?"[^"]*"|\S+/g) || []) {
+        const negated = term.startsWith('-')
+        const phrase = term.includes('"')
+        const value = term.replace(/^-/, '').replace(/"/g, '')
+        const hits = phrase ? Number(text.includes(value)) : words.filter((word) => word === value).length
+
+        if (negated ? hits > 0 : phrase && hits < 1) {
+            return 0
+        }
+
+        if (!negated) {
+            score += hits
+        }
+    }
+
+    return score
+}
+
+/**
+ * Prüft, ob ein Objekt einer MongoDb Suchbedingung entspricht. Unterstützt werden
+ * die Operationen, die bei der Umsetzung von GraphQL Filtern entstehen.
+ *
+ * @param item das zu prüfende Objekt.
+ * @param filter die Suchbedingung.
+ */
+export function matchFilter(item: unknown, filter: Filter<unknown>): boolean {
+    for (const field of Object.keys(filter || {})) {
+        const condition = (filter as Document)[field]
+
+        switch (field) {
+            case '$and':
+                if (!(condition as Filter<unknown>[]).every((f) => matchFilter(item, f))) {
+                    return false
+                }
+                break
+            case '$or':
+                if (!(condition as Filter<unknown>[]).some((f) => matchFilter(item, f))) {
+                    return false
+                }
+                break
+            case '$nor':
+                if ((condition as Filter<unknown>[]).some((f) => matchFilter(item, f))) {
+                    return false
+                }
+                break
+            case '$text':
+                if (getTextScore(item, condition.$search) < 1) {
+                    return false
+                }
+                break
+            default:
+                if (field.startsWith('$')) {
+                    throw new Error(`unsupported filter operation ${field}`)
+                }
+
+                if (!matchOperations(getValues(item, field.split('.')), condition)) {
+                    return false
+                }
+                break
+        }
+    }
+
+    return true
+}
+
+/** Die Operationen auf einem Feld, deren Parameter nicht weiter geprüft werden müssen. */
+const simpleOperations = new Set([
+    '$all',
+    '$eq',
+    '$exists',
+    '$gt',
+    '$gte',
+    '$in',
+    '$lt',
+    '$lte',
+    '$ne',
+    '$nearSphere',
+    '$nin',
+    '$options',
+    '$size',
+])
+
+/**
+ * Prüft alle Operationen auf einem Feld.
+ *
+ * @param ops die Operationen oder ein Vergleichswert.
+ */
+function checkOperations(ops: unknown): void {
+    if (!isOperations(ops)) {
+        return
+    }
+
+    for (const op of Object.keys(ops)) {
+        const arg = ops[op]
+
+        switch (op) {
+            case '$elemMatch':
+                checkFilter(arg)
+                break
+            case '$geoWithin':
+                if (!arg?.$centerSphere && arg?.$geometry?.type !== 'Polygon') {
+                    throw new Error('unsupported geo area')
+                }
+                break
+            case '$not':
+                checkOperations(arg)
+                break
+            case '$regex':
+                /** Ungültige Muster werden beim Übersetzen gemeldet. */
+                RegExp(arg, ops.$options || '')
+                break
+            case '$type':
+                if (arg !== 'array') {
+                    throw new Error(`unsupported type ${arg}`)
+                }
+                break
+            default:
+                if (!simpleOperations.has(op)) {
+                    throw new Error(`unsupported filter operation ${op}`)
+                }
+                break
+        }
+    }
+}
+
+/**
+ * Prüft vorab, ob eine MongoDb Suchbedingung mit matchFilter ausgewertet werden kann - etwa
+ * bevor sie dauerhaft für die Überwachung von Veränderungen verwendet wird.
+ *
+ * @param filter die Suchbedingung.
+ */
+export function checkFilter(filter: Filter<unknown>): void {
+    for (const field of Object.keys(filter || {})) {
+        const condition = (filter as Document)[field]
+
+        switch (field) {
+            case '$and':
+            case '$nor':
+            case '$or':
+                for (const inner of condition as Filter<unknown>[]) {
+                    checkFilter(inner)
+                }
+                break
+            case '$text':
+                break
+            default:
+                if (field.startsWith('$')) {
+                    throw new Error(`unsupported filter operation ${field}`)
+                }
+
+                checkOperations(condition)
+                break
+        }
+    }
+}
+
+/** Die Reihenfolge unterschiedlicher Arten von Werten bei der Sortierung - vereinfacht nach MongoDb. */
+const sortOrder = ['null', 'number', 'string', 'object', 'array', 'boolean', 'date']
+
+/**
+ * Vergleicht zwei Objekte nach dem Wert eines Feldes für die Sortierung.
+ *
+ * @param left das erste Objekt.
+ * @param right das zweite Objekt.
+ * @param field der Name des Feldes, Unterobjekte werden durch Punkte getrennt.
+ */
+export function compareField(left: unknown, right: unknown, field: string): number {
+    const path = field.split('.')
+    const leftValue = getValues(left, path)[0]
+    const rightValue = getValues(right, path)[0]
+
+    const getOrder = (value: unknown) =>
+        sortOrder.indexOf(
+            value === null || value === undefined
+                ? 'null'
+                : value instanceof Date
+                  ? 'date'
+                  : Array.isArray(value)
+                    ? 'array'
+                    : typeof value
+        )
+
+    return compare(leftValue, rightValue) ?? getOrder(leftValue) - getOrder(rightValue)
+}
@@ -0,0 +1,92 @@
+import { deepStrictEqual, notStrictEqual, strictEqual } from 'node:assert'
+import { describe, it } from 'node:test'
+
+import { graphql, GraphQLSchema } from 'graphql'
+
+import { Collection } from './collection'
+import { MemoryConnection } from './memory'
+import { createSchemaConfiguration } from './schema'
+import * as types from './types'
+
+/** Die Typdefinition der Entitäten im Test. */
+const Book = types.GqlObject('Book', {
+    _id: types.GqlId({ computed: true }),
+    title: types.GqlString({ sortable: true, validation: { min: 2 } }),
+})
+
+/** Die Anbindung der Entitäten im Test. */
+class BookCollection extends Collection<typeof Book> {
+    readonly collectionName = 'books'
+}
+
+/**
+ * Legt die Anbindung an und erstellt eine Methode zum Ausführen von GraphQL Operationen.
+ *
+ * @param connection die zu verwendende Verbindung.
+ */
+async function createRunner(
+    connection: MemoryConnection
+): Promise<<TData>(source: string) => Promise<{ data?: TData; errors?: readonly Error[] }>> {
+    const books = await connection.createCollection(Book, BookCollection, { validationLevel: 'strict' })
+    const schema = new GraphQLSchema(await createSchemaConfiguration({ books: Promise.resolve(books) }))
+
+    return async <TData>(source: string) => {
+        const { data, errors } = await graphql({ contextValue: {}, schema, source })
+
+        return { data: data as TData, errors }
+    }
+}
+
+describe('MemoryConnection', () => {
+    it('stores entities added through GraphQL', async () => {
+        const connection = new MemoryConnection()
+        const run = await createRunner(connection)
+
+        strictEqual((await run('mutation { books { add(data: { title: "Bb" }) { _id } } }')).errors, undefined)
+        strictEqual((await run('mutation { books { add(data: { title: "Aa" }) { _id } } }')).errors, undefined)
+        strictEqual((await run('mutation { books { add(data: { title: "B" }) { _id } } }')).errors?.length, 1)
+
+        const found = await run<{ books: { find: { items: { title: string }[] } } }>(
+            '{ books { find(sort: [{ direction: Ascending, field: title }]) { items { title } } } }'
+        )
+
+        deepStrictEqual(
+            found.data.books.find.items.map((book) => book.title),
+            ['Aa', 'Bb']
+        )
+        strictEqual(connection.getMemoryCollection('books').items.length, 2)
+    })
+
+    it('reports a copy of a removed entity', async () => {
+        const connection = new MemoryConnection()
+        const books = connection.getMemoryCollection<{ _id: string; title: string }>('books')
+
+        await books.insertOne({ _id: '1', title: 'A' })
+
+        const stored = books.items[0]
+        const removed = await books.findOneAndDelete({ _id: '1' })
+
+        deepStrictEqual(removed, stored)
+        notStrictEqual(removed, stored)
+        strictEqual(books.items.length, 0)
+    })
+
+    it('discards all changes of a failed transaction', async () => {
+        const connection = new MemoryConnection()
+        const books = connection.getMemoryCollection<{ _id: string; title: string }>('books')
+
+        await books.insertOne({ _id: '1', title: 'A' })
+
+        const failed = await connection
+            .withTransaction(async () => {
+                await books.insertOne({ _id: '2', title: 'B' })
+                await books.findOneAndUpdate({ _id: '1' }, { $set: { title: 'C' } })
+
+                throw new Error('failed')
+            })
+            .catch((error: Error) => error.message)
+
+        strictEqual(failed, 'failed')
+        deepStrictEqual(books.items, [{ _id: '1', title: 'A' }])
+    })
+})
@@ -0,0 +1,405 @@
+import { EventEmitter } from 'events'
+import * as mongodb from 'mongodb'
+
+import { Connection, IDatabaseChangeStream, IDatabaseCollection, IDatabaseCursor } from './connection'
+import { compareField, getTextScore, matchFilter } from './match'
+
+/** Die Ergebnisse einer Suche mit optionaler Sortierung und Einschränkung des Ergebnisfensters. */
+class MemoryCursor<TItem> implements IDatabaseCursor<TItem> {
+    /** Optional die Sortierung. */
+    private _sort: Record<string, mongodb.SortDirection>
+
+    /** Die Anzahl der zu überspringenden Entitäten. */
+    private _skip = 0
+
+    /** Optional die maximale Anzahl von Entitäten. */
+    private _limit = 0
+
+    /**
+     * Erstellt ein neues Ergebnis.
+     *
+     * @param _items alle passenden Entitäten.
+     */
+    constructor(private readonly _items: TItem[]) {}
+
+    /** Legt die Sortierung fest - unterstützt wird nur die Angabe als Objekt. */
+    sort(sort: mongodb.Sort): this {
+        this._sort = sort as Record<string, mongodb.SortDirection>
+
+        return this
+    }
+
+    /** Legt fest, wie viele Entitäten übersprungen werden sollen. */
+    skip(skip: number): this {
+        this._skip = skip
+
+        return this
+    }
+
+    /** Legt die maximale Anzahl von Entitäten fest. */
+    limit(limit: number): this {
+        this._limit = limit
+
+        return this
+    }
+
+    /** Meldet alle Entitäten im Ergebnisfenster. */
+    async toArray(): Promise<TItem[]> {
+        const items = [...this._items]
+        const sort = this._sort
+
+        if (sort) {
+            items.sort((left, right) => {
+                for (const field of Object.keys(sort)) {
+                    /** Nach der Relevanz einer Volltextsuche wird immer absteigend sortiert. */
+                    const direction = sort[field]
+                    const test = compareField(left, right, field) * (typeof direction === 'number' ? direction : -1)
+
+                    if (test) {
+                        return test
+                    }
+                }
+
+                return 0
+            })
+        }
+
+        return items.slice(this._skip, this._limit ? this._skip + this._limit : undefined)
+    }
+}
+
+/**
+ * Setzt den Wert eines Feldes.
+ *
+ * @param item das zu verändernde Objekt.
+ * @param field der Name des Feldes, Unterobjekte werden durch Punkte getrennt.
+ * @param change berechnet aus dem aktuellen Wert den neuen Wert - undefined entfernt das Feld.
+ */
+function changeField<TValue>(item: mongodb.Document, field: string, change: (value: TValue) => unknown): void {
+    const path = field.split('.')
+    const last = path.pop()
+
+    for (const name of path) {
+        if (item[name] === null || typeof item[name] !== 'object') {
+            item[name] = {}
+        }
+
+        item = item[name]
+    }
+
+    const value = change(item[last])
+
+    if (value === undefined) {
+        delete item[last]
+    } else {
+        item[last] = value
+    }
+}
+
+/**
+ * Führt eine Änderung auf einer Entität aus.
+ *
+ * @param item die zu verändernde Entität.
+ * @param update die Beschreibung der Änderung.
+ * @param inserted gesetzt, wenn die Entität gerade erst angelegt wird.
+ */
+function applyUpdate(item: mongodb.Document, update: mongodb.Document, inserted: boolean): void {
+    for (const op of Object.keys(update)) {
+        const fields = update[op]
+
+        for (const field of Object.keys(fields)) {
+            const arg = fields[field]
+            const each = (): unknown[] => (arg && Array.isArray(arg.$each) ? arg.$each : [arg])
+
+            switch (op) {
+                case '$set':
+                    changeField(item, field, () => structuredClone(arg))
+                    break
+                case '$setOnInsert':
+                    if (inserted) {
+                        changeField(item, field, () => structuredClone(arg))
+                    }
+                    break
+                case '$unset':
+                    changeField(item, field, () => undefined)
+                    break
+                case '$inc':
+                    changeField(item, field, (value: number) => (value || 0) + arg)
+                    break
+                case '$push':
+                    changeField(item, field, (value: unknown[]) => [...(value || []), ...structuredClone(each())])
+                    break
+                case '$addToSet':
+                    changeField(item, field, (value: unknown[] = []) =>
+                        each().reduce<unknown[]>(
+                            (all, element) =>
+                                all.some((e) => matchFilter({ e }, { e: element })) ? all : [...all, element],
+                            [...value]
+                        )
+                    )
+                    break
+                case '$pull':
+                    changeField(item, field, (value: unknown[] = []) =>
+                        value.filter((element) => !matchFilter({ element }, { element: arg }))
+                    )
+                    break
+                default:
+                    throw new Error(`unsupported update operation ${op}`)
+            }
+        }
+    }
+}
+
+/**
+ * Ermittelt die gesuchten Begriffe einer Volltextsuche.
+ *
+ * @param filter die Suchbedingung.
+ */
+function getTextSearch(filter: mongodb.Filter<unknown>): string | undefined {
+    const { $and, $text } = (filter || {}) as mongodb.Document
+
+    if ($text) {
+        return $text.$search
+    }
+
+    for (const inner of $and || []) {
+        const search = getTextSearch(inner)
+
+        if (search !== undefined) {
+            return search
+        }
+    }
+
+    return undefined
+}
+
+/**
+ * Eine Collection (Tabelle), deren Entitäten nur im Speicher gehalten werden. Unterstützt
+ * werden genau die Operationen, die von den Anbindungen selbst verwendet werden - und dabei
+ * auch nur die Suchbedingungen und Änderungen, die aus GraphQL Operationen entstehen.
+ */
+export class MemoryCollection<TItem extends mongodb.Document = mongodb.Document> implements IDatabaseCollection<TItem> {
+    /** Alle Entitäten in der Reihenfolge ihres Anlegens. */
+    items: TItem[] = []
+
+    /**
+     * Meldet alle passenden Entitäten.
+     *
+     * @param filter die Suchbedingung.
+     */
+    private _match(filter: mongodb.Filter<TItem>): mongodb.WithId<TItem>[] {
+        return this.items.filter((item) => matchFilter(item, filter)) as mongodb.WithId<TItem>[]
+    }
+
+    /** Meldet die Anzahl der passenden Entitäten. */
+    async countDocuments(filter?: mongodb.Filter<TItem>): Promise<number> {
+        return this._match(filter).length
+    }
+
+    /** Meldet alle unterschiedlichen Werte eines Feldes in den passenden Entitäten. */
+    async distinct(field: string, filter?: mongodb.Filter<TItem>): Promise<unknown[]> {
+        const values: unknown[] = []
+
+        for (const item of this._match(filter)) {
+            const value = item[field]
+
+            if (value !== undefined && !values.some((v) => matchFilter({ v }, { v: value }))) {
+                values.push(value)
+            }
+        }
+
+        return values
+    }
+
+    /** Sucht nach Entitäten - in der Projektion wird nur die Relevanz einer Volltextsuche unterstützt. */
+    find(filter?: mongodb.Filter<TItem>, options?: mongodb.FindOptions): MemoryCursor<mongodb.WithId<TItem>>
+    find<TResult extends mongodb.Document>(
+        filter: mongodb.Filter<TItem>,
+        options?: mongodb.FindOptions
+    ): MemoryCursor<TResult>
+    find(filter?: mongodb.Filter<TItem>, options?: mongodb.FindOptions): MemoryCursor<mongodb.Document> {
+        const items: mongodb.Document[] = structuredClone(this._match(filter))
+        const projection = options?.projection || {}
+        const search = getTextSearch(filter)
+
+        for (const field of Object.keys(projection)) {
+            if (projection[field]?.$meta === 'textScore') {
+                items.forEach((item) => (item[field] = getTextScore(item, search || '')))
+            }
+        }
+
+        return new MemoryCursor(items)
+    }
+
+    /** Sucht nach einer einzelnen Entität. */
+    async findOne(filter?: mongodb.Filter<TItem>): Promise<mongodb.WithId<TItem> | null> {
+        return structuredClone(this._match(filter)[0] || null)
+    }
+
+    /** Entfernt alle passenden Entitäten. */
+    async deleteMany(filter: mongodb.Filter<TItem>): Promise<mongodb.DeleteResult> {
+        const deleted = new Set<unknown>(this._match(filter))
+
+        this.items = this.items.filter((i) => !deleted.has(i))
+
+        return { acknowledged: true, deletedCount: deleted.size }
+    }
+
+    /** Entfernt eine einzelne Entität. */
+    async findOneAndDelete(filter: mongodb.Filter<TItem>): Promise<mongodb.WithId<TItem> | null> {
+        const item = this._match(filter)[0]
+
+        if (!item) {
+            return null
+        }
+
+        this.items = this.items.filter((i) => i !== item)
+
+        return structuredClone(item)
+    }
+
+    /** Verändert eine einzelne Entität und legt sie bei Bedarf an. */
+    findOneAndUpdate(
+        filter: mongodb.Filter<TItem>,
+        update: mongodb.UpdateFilter<TItem>,
+        options: mongodb.FindOneAndUpdateOptions & { includeResultMetadata: true }
+    ): Promise<mongodb.ModifyResult<TItem>>
+    findOneAndUpdate(
+        filter: mongodb.Filter<TItem>,
+        update: mongodb.UpdateFilter<TItem>,
+        options?: mongodb.FindOneAndUpdateOptions
+    ): Promise<mongodb.WithId<TItem> | null>
+    async findOneAndUpdate(
+        filter: mongodb.Filter<TItem>,
+        update: mongodb.UpdateFilter<TItem>,
+        options?: mongodb.FindOneAndUpdateOptions
+    ): Promise<mongodb.ModifyResult<TItem> | mongodb.WithId<TItem> | null> {
+        let item = this._match(filter)[0]
+
+        const before = item && structuredClone(item)
+        const updatedExisting = !!item
+
+        if (!item && options?.upsert) {
+            /** Die Werte aus einfachen Vergleichen werden wie in MongoDb übernommen. */
+            item = {} as mongodb.WithId<TItem>
+
+            for (const field of Object.keys(filter || {})) {
+                const value = (filter as mongodb.Document)[field]
+
+                if (!field.startsWith('$') && (value === null || typeof value !== 'object' || value instanceof Date)) {
+                    changeField(item, field, () => value)
+                }
+            }
+
+            this.items.push(item as TItem)
+        }
+
+        if (item) {
+            applyUpdate(item, update, !updatedExisting)
+        }
+
+        const value = item && structuredClone(options?.returnDocument === 'after' ? item : before || null)
+
+        return options?.includeResultMetadata ? { lastErrorObject: { updatedExisting }, ok: 1, value } : value
+    }
+
+    /** Legt eine neue Entität an. */
+    async insertOne(item: mongodb.OptionalUnlessRequiredId<TItem>): Promise<mongodb.InsertOneResult<TItem>> {
+        const added = structuredClone(item) as TItem
+
+        if (this.items.some((i) => i._id === added._id)) {
+            throw new Error(`duplicate key ${added._id}`)
+        }
+
+        this.items.push(added)
+
+        return { acknowledged: true, insertedId: added._id }
+    }
+
+    /** Indexe werden nicht verwaltet. */
+    listIndexes(): MemoryCursor<mongodb.Document> {
+        return new MemoryCursor([])
+    }
+
+    /** Indexe werden nicht verwaltet. */
+    async createIndexes(indexes: mongodb.IndexDescription[]): Promise<string[]> {
+        return indexes.map((index) => index.name)
+    }
+
+    /** Indexe werden nicht verwaltet. */
+    async dropIndex(): Promise<void> {
+        return undefined
+    }
+
+    /** Veränderungen werden immer direkt aus dem eigenen Prozess gemeldet. */
+    watch(): IDatabaseChangeStream<TItem> {
+        const stream = Object.assign(new EventEmitter(), { close: async (): Promise<void> => undefined })
+
+        process.nextTick(() => stream.emit('error', new Error('change streams are not supported')))
+
+        return stream
+    }
+}
+
+/**
+ * Eine Verbindung, bei der alle Entitäten nur im Speicher gehalten werden - etwa für den Test
+ * von Anbindungen und deren Eingriffen ohne eine MongoDb Datenbank.
+ */
+export class MemoryConnection extends Connection {
+    /** Alle bisher verwendeten Collections (Tabellen) - die Art der Entitäten legt erst der Aufrufer fest. */
+    private readonly _collections = new Map<string, unknown>()
+
+    /** Erstellt eine neue Verbindung. */
+    constructor() {
+        super(Promise.resolve(undefined))
+    }
+
+    /**
+     * Meldet eine Collection (Tabelle) - eine noch nicht verwendete Collection wird leer angelegt.
+     *
+     * @param name der Name der Collection.
+     */
+    getMemoryCollection<TItem extends mongodb.Document>(name: string): MemoryCollection<TItem> {
+        let collection = this._collections.get(name) as MemoryCollection<TItem>
+
+        if (!collection) {
+            this._collections.set(name, (collection = new MemoryCollection<TItem>()))
+        }
+
+        return collection
+    }
+
+    /** Meldet eine Verbindung zu einer einzelnen Collection (Tabelle). */
+    getCollection<TItem extends mongodb.Document>(name: string): Promise<IDatabaseCollection<TItem>> {
+        return Promise.resolve(this.getMemoryCollection<TItem>(name))
+    }
+
+    /** Die Prüfung durch die Datenbank entfällt - die Anbindungen prüfen alle Entitäten bereits selbst. */
+    protected applyJsonSchema(): Promise<void> {
+        return Promise.resolve<void>(undefined)
+    }
+
+    /**
+     * Führt eine Transaktion so aus, dass bei einem Fehler alle Veränderungen verworfen werden - gleichzeitig
+     * ausgeführte Operationen werden dabei allerdings nicht voneinander isoliert.
+     *
+     * @param attempt die auszuführende Operation.
+     */
+    protected async runTransaction<T>(attempt: (session: mongodb.ClientSession) => Promise<T>): Promise<T> {
+        const snapshot = new Map<string, mongodb.Document[]>()
+
+        for (const name of this._collections.keys()) {
+            snapshot.set(name, structuredClone(this.getMemoryCollection(name).items))
+        }
+
+        try {
+            return await attempt(undefined)
+        } catch (error) {
+            for (const name of this._collections.keys()) {
+                this.getMemoryCollection(name).items = snapshot.get(name) || []
+            }
+
+            throw error
+        }
+    }
+}
@@ -1,6 +1,9 @@
-import { GraphQLFieldConfig, GraphQLFieldConfigMap, GraphQLObjectType } from 'graphql'
+import { GraphQLFieldConfig, GraphQLFieldConfigMap, GraphQLObjectType, GraphQLResolveInfo } from 'graphql'
 
+import { anonymous, ICaller, maskResult, resolveCaller, TGetCaller } from './authorization'
 import { Collection } from './collection'
+import { Connection } from './connection'
+import { createError } from './errors'
 import { TGqlFilter } from './filterTypes'
 import { GqlRecord, TGqlObject, GqlBase, GqlArgs, TGqlFilterTypes, IGqlObjectLayout } from './types'
 import { validateAndThrow } from './validation'
@@ -8,25 +11,52 @@ import { validateAndThrow } from './validation'
 /** Ermittelt aus einem Promise den Parameter - hier nur für Collections genutzt. */
 export type TCollection<T> = T extends Promise<infer TCollection> ? TCollection : never
 
+/** Zusätzliche Einstellungen für eine GraphQL Operation. */
+export interface IMethodOptions<TArgs extends IGqlObjectLayout, TContext = unknown> {
+    /** Optional eine Prüfung, ob der Aufrufer die Operation ausführen darf - noch vor der Prüfung der Parameter. */
+    guard?(caller: ICaller, args: TGqlObject<TArgs>, context: TContext): boolean | Promise<boolean>
+    /** Gesetzt, wenn die Operation vollständig in einer einzigen Transaktion ausgeführt werden soll. */
+    transaction?: boolean
+}
+
 /** Informationen zu einer registrierten GraphQL Operation. */
 export interface IMethodRegistration<
     TArgs extends IGqlObjectLayout,
     TResult,
     TFilter extends TGqlFilterTypes,
-    TLayout
+    TLayout,
+    TContext = unknown
 > {
     /** Die tatsächliche Ausführung bei Aufruf der Methode - eine Parameterprüfung hat bereits stattgefunden. */
-    handler(args: TGqlObject<TArgs>): Promise<TResult>
+    handler(args: TGqlObject<TArgs>, context: TContext, info?: GraphQLResolveInfo): Promise<TResult>
     /** Layout für die Typdefinition der Parameter. */
     readonly args: TArgs
     /** Typdefinition der Parameter. */
     readonly argsType: GqlRecord<TGqlObject<TArgs>, unknown>
     /** GraphQL Beschreibung der Operation. */
     readonly method: GraphQLFieldConfig<unknown, unknown>
+    /** Zusätzliche Einstellungen zur Operation. */
+    readonly options?: IMethodOptions<TArgs, TContext>
     /** Typdefinition des Rückgabewertes der Operation. */
     readonly resultType: GqlBase<TResult, TFilter, TLayout>
 }
 
+/** Informationen zu einer registrierten GraphQL Überwachung. */
+export interface ISubscriptionRegistration<
+    TArgs extends IGqlObjectLayout,
+    TResult,
+    TFilter extends TGqlFilterTypes,
+    TLayout,
+    TContext = unknown
+> extends Omit<IMethodRegistration<TArgs, TResult, TFilter, TLayout, TContext>, 'handler'> {
+    /** Startet die Überwachung - eine Parameterprüfung hat bereits stattgefunden. */
+    handler(
+        args: TGqlObject<TArgs>,
+        context: TContext,
+        info?: GraphQLResolveInfo
+    ): AsyncIterableIterator<TResult> | Promise<AsyncIterableIterator<TResult>>
+}
+
 /** Ermittelt den JavaScript Datentyp für die Parameter einer Methode. */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export type TGetMethodArgs<T extends Collection<any, any>, TOp extends keyof T> = T[TOp] extends IMethodRegistration<
@@ -57,14 +87,21 @@ export type TGetMethodResult<T extends Collection<any, any>, TOp extends keyof T
 
 /** Abstrakter Zugriff auf eine Datenbank. */
 interface IDatabase<TItem> {
+    readonly connection: Connection
     readonly model: GqlRecord<TItem, unknown>
 }
 
-/** Hilfsklasse zur Verwaltung von GraphQL Methoden. */
-abstract class MethodManager<TItem> {
+/** Die für die Verwaltung relevanten Informationen einer Registrierung. */
+type TRegistration = Pick<
+    IMethodRegistration<IGqlObjectLayout, unknown, 'unknown', unknown>,
+    'argsType' | 'method' | 'options' | 'resultType'
+>
+
+/** Hilfsklasse zur Verwaltung von GraphQL Operationen aller Art. */
+abstract class OperationManager<TItem, TContext> {
     /** Alle bisher registrierten Operationen. */
-    private readonly _methods: {
-        [memberName: string]: IMethodRegistration<IGqlObjectLayout, unknown, 'unknown', unknown>
+    protected readonly _methods: {
+        [memberName: string]: TRegistration
     } = {}
 
     /**
@@ -80,28 +117,125 @@ abstract class MethodManager<TItem> {
         private readonly _description?: string
     ) {}
 
+    /** Meldet alle Operationen einzeln in der zugehörigen GraphQL Notation. */
+    get fields(): GraphQLFieldConfigMap<unknown, unknown> {
+        return this.getFields()
+    }
+
     /** Meldet alle Operationen in der zugehörigen GraphQL Notation. */
     get methods(): GraphQLFieldConfig<unknown, unknown> {
+        return this.getMethods()
+    }
+
+    /** Meldet die GraphQL Beschreibung aller Operationen - ohne Prüfung der Zugriffsrechte. */
+    get registrations(): Readonly<Record<string, GraphQLFieldConfig<unknown, unknown>>> {
+        const registrations: Record<string, GraphQLFieldConfig<unknown, unknown>> = {}
+
+        for (const member of Object.keys(this._methods)) {
+            registrations[member] = this._methods[member].method
+        }
+
+        return registrations
+    }
+
+    /**
+     * Meldet alle Operationen einzeln in der zugehörigen GraphQL Notation.
+     *
+     * @param getCaller ermittelt den Aufrufer für die Prüfung der Zugriffsrechte.
+     */
+    getFields(getCaller: TGetCaller<TContext> = anonymous): GraphQLFieldConfigMap<unknown, unknown> {
         const fields: GraphQLFieldConfigMap<unknown, unknown> = {}
 
         /** Alle Registrierungen durchgehen und übernehmen. */
         for (const member of Object.keys(this._methods)) {
             const registration = this._methods[member]
 
-            fields[member] = registration.method
+            fields[member] = this._authorize(registration, getCaller)
         }
 
+        return fields
+    }
+
+    /**
+     * Meldet alle Operationen in der zugehörigen GraphQL Notation.
+     *
+     * @param getCaller ermittelt den Aufrufer für die Prüfung der Zugriffsrechte.
+     */
+    getMethods(getCaller: TGetCaller<TContext> = anonymous): GraphQLFieldConfig<unknown, unknown> {
         /** GraphQL Konfiguration mit resolve Bindung an die Datenbank aufsetzen. */
         return {
             resolve: () => this._resolver,
             type: new GraphQLObjectType({
                 description: this._description,
-                fields,
+                fields: this.getFields(getCaller),
                 name: `${this._resolver.model.graphQLType.name}${this._scope}`,
             }),
         }
     }
 
+    /**
+     * Ergänzt eine Operation um die Prüfung der Zugriffsrechte. Vor der eigentlichen Ausführung
+     * wird geprüft, ob der Aufrufer die Operation überhaupt verwenden darf, danach werden
+     * aus dem Ergebnis alle Felder entfernt, die der Aufrufer nicht auslesen darf.
+     *
+     * @param registration die Registrierung der Operation.
+     * @param getCaller ermittelt den Aufrufer.
+     */
+    private _authorize(
+        registration: TRegistration,
+        getCaller: TGetCaller<TContext>
+    ): GraphQLFieldConfig<unknown, unknown> {
+        const { method, options, resultType } = registration
+
+        /** Prüft die Berechtigung zur Ausführung der Operation. */
+        const authorize = async (args: TGqlObject<IGqlObjectLayout>, context: TContext): Promise<ICaller> => {
+            const caller = await resolveCaller(context, getCaller)
+
+            if (options?.guard && !(await options.guard(caller, args, context))) {
+                throw createError('FORBIDDEN', 'operation not allowed')
+            }
+
+            return caller
+        }
+
+        /** Bei Überwachungen wird der Start geprüft und jeder gemeldete Wert bereinigt. */
+        if (method.subscribe) {
+            return {
+                ...method,
+                resolve: async (value, args, context: TContext, info) =>
+                    maskResult(
+                        await method.resolve(value, args, context, info),
+                        resultType,
+                        await resolveCaller(context, getCaller)
+                    ),
+                subscribe: async (source, args, context: TContext, info) => {
+                    await authorize(args, context)
+
+                    return method.subscribe(source, args, context, info)
+                },
+            }
+        }
+
+        return {
+            ...method,
+            resolve: async (source, args, context: TContext, info) => {
+                const caller = await authorize(args, context)
+
+                /** Bei Bedarf werden alle Veränderungen gemeinsam durchgeführt. */
+                const execute = async () => method.resolve(source, args, context, info)
+
+                const result = options?.transaction
+                    ? await this._resolver.connection.withTransaction(execute)
+                    : await execute()
+
+                return maskResult(result, resultType, caller)
+            },
+        }
+    }
+}
+
+/** Hilfsklasse zur Verwaltung von GraphQL Methoden. */
+abstract class MethodManager<TItem, TContext> extends OperationManager<TItem, TContext> {
     /**
      * Meldet eine GraphQL Operation an.
      *
@@ -109,16 +243,18 @@ abstract class MethodManager<TItem> {
      * @param args Layout der Parameter.
      * @param resultType Typdefinition des Rückgabewertes.
      * @param description optionale Beschreibung der Operation.
-     * @param processor führt die Operation nach Prüfung der Parameter aus.
+     * @param processor führt die Operation nach Prüfung der Parameter mit dem GraphQL Kontext des Aufrufs aus.
+     * @param options optional zusätzliche Einstellungen zur Operation.
      */
     register<TArgs extends IGqlObjectLayout, TResult, TFilter extends TGqlFilterTypes, TLayout>(
         name: string,
         args: TArgs,
         resultType: GqlBase<TResult, TFilter, TLayout>,
         description: string,
-        processor: (args: TGqlObject<TArgs>) => Promise<TResult>
-    ): IMethodRegistration<TArgs, TResult, TFilter, TLayout> {
-        return this._register(false, name, args, resultType, description, processor)
+        processor: (args: TGqlObject<TArgs>, context: TContext, info: GraphQLResolveInfo) => Promise<TResult>,
+        options?: IMethodOptions<TArgs, TContext>
+    ): IMethodRegistration<TArgs, TResult, TFilter, TLayout, TContext> {
+        return this._register(false, name, args, resultType, description, processor, options)
     }
 
     /**
@@ -130,16 +266,18 @@ abstract class MethodManager<TItem> {
      * @param args Layout der Parameter.
      * @param resultType Typdefinition des Rückgabewertes.
      * @param description optionale Beschreibung der Operation.
-     * @param processor führt die Operation nach Prüfung der Parameter aus.
+     * @param processor führt die Operation nach Prüfung der Parameter mit dem GraphQL Kontext des Aufrufs aus.
+     * @param options optional zusätzliche Einstellungen zur Operation.
      */
     registerUpdate<TArgs extends IGqlObjectLayout, TResult, TFilter extends TGqlFilterTypes, TLayout>(
         name: string,
         args: TArgs,
         resultType: GqlBase<TResult, TFilter, TLayout>,
         description: string,
-        processor: (args: TGqlObject<TArgs>) => Promise<TResult>
-    ): IMethodRegistration<TArgs, TResult, TFilter, TLayout> {
-        return this._register(true, name, args, resultType, description, processor)
+        processor: (args: TGqlObject<TArgs>, context: TContext, info: GraphQLResolveInfo) => Promise<TResult>,
+        options?: IMethodOptions<TArgs, TContext>
+    ): IMethodRegistration<TArgs, TResult, TFilter, TLayout, TContext> {
+        return this._register(true, name, args, resultType, description, processor, options)
     }
 
     /**
@@ -151,7 +289,8 @@ abstract class MethodManager<TItem> {
      * @param args Layout der Parameter.
      * @param resultType Typdefinition des Rückgabewertes.
      * @param description optionale Beschreibung der Operation.
-     * @param processor führt die Operation nach Prüfung der Parameter aus.
+     * @param processor führt die Operation nach Prüfung der Parameter mit dem GraphQL Kontext des Aufrufs aus.
+     * @param options optional zusätzliche Einstellungen zur Operation.
      */
     private _register<TArgs extends IGqlObjectLayout, TResult, TFilter extends TGqlFilterTypes, TLayout>(
         useUpdate: boolean,
@@ -159,47 +298,114 @@ abstract class MethodManager<TItem> {
         args: TArgs,
         resultType: GqlBase<TResult, TFilter, TLayout>,
         description: string,
-        processor: (args: TGqlObject<TArgs>) => Promise<TResult>
-    ): IMethodRegistration<TArgs, TResult, TFilter, TLayout> {
+        processor: (args: TGqlObject<TArgs>, context: TContext, info: GraphQLResolveInfo) => Promise<TResult>,
+        options?: IMethodOptions<TArgs, TContext>
+    ): IMethodRegistration<TArgs, TResult, TFilter, TLayout, TContext> {
         /** Datentyp für die formalen Parameter anlegen. */
         const argsType = GqlArgs(`${name}_args`, args)
 
         /** Registrierung anlegen und in die Verwaltung eintragen. */
-        const proxy: IMethodRegistration<TArgs, TResult, TFilter, TLayout> = {
+        const proxy: IMethodRegistration<TArgs, TResult, TFilter, TLayout, TContext> = {
             args,
             argsType,
             handler: processor,
             method: {
                 args: argsType[useUpdate ? 'graphQLUpdateType' : 'graphQLInputType'].getFields(),
                 description,
-                resolve: (source: IDatabase<TItem>, args: TGqlObject<TArgs>) => {
+                resolve: (
+                    source: IDatabase<TItem>,
+                    args: TGqlObject<TArgs>,
+                    context: TContext,
+                    info: GraphQLResolveInfo
+                ) => {
                     /** Aktuelle Parameter prüfen. */
                     validateAndThrow(args, this._methods[name].argsType, useUpdate)
 
                     /** Ausführung mit geprüften Parametern durchführen. */
-                    return processor(args)
+                    return processor(args, context, info)
                 },
                 type: resultType.outputType,
             },
+            options,
             resultType,
         }
 
-        this._methods[name] = proxy as IMethodRegistration<IGqlObjectLayout, unknown, 'unknown', unknown>
+        this._methods[name] = proxy as TRegistration
 
         return proxy
     }
 }
 
 /** Erstellt eine Verwaltung für GraphQL Suchoperationen. */
-export class QueryManager<TItem> extends MethodManager<TItem> {
+export class QueryManager<TItem, TContext = unknown> extends MethodManager<TItem, TContext> {
     constructor(resolver: IDatabase<TItem>, description?: string) {
         super('Query', resolver, description)
     }
 }
 
 /** Erstellt eine Verwaltung für GraphQL Änderungsoperationen. */
-export class MutationManager<TItem> extends MethodManager<TItem> {
+export class MutationManager<TItem, TContext = unknown> extends MethodManager<TItem, TContext> {
     constructor(resolver: IDatabase<TItem>, description?: string) {
         super('Mutation', resolver, description)
     }
 }
+
+/** Erstellt eine Verwaltung für GraphQL Überwachungen. */
+export class SubscriptionManager<TItem, TContext = unknown> extends OperationManager<TItem, TContext> {
+    constructor(resolver: IDatabase<TItem>, description?: string) {
+        super('Subscription', resolver, description)
+    }
+
+    /**
+     * Meldet eine GraphQL Überwachung an.
+     *
+     * @param name der GraphQL Name der Überwachung.
+     * @param args Layout der Parameter.
+     * @param resultType Typdefinition der gemeldeten Werte.
+     * @param description optionale Beschreibung der Überwachung.
+     * @param processor startet die Überwachung nach Prüfung der Parameter mit dem GraphQL Kontext des Aufrufs.
+     * @param options optional zusätzliche Einstellungen zur Überwachung.
+     */
+    register<TArgs extends IGqlObjectLayout, TResult, TFilter extends TGqlFilterTypes, TLayout>(
+        name: string,
+        args: TArgs,
+        resultType: GqlBase<TResult, TFilter, TLayout>,
+        description: string,
+        processor: (
+            args: TGqlObject<TArgs>,
+            context: TContext,
+            info: GraphQLResolveInfo
+        ) => AsyncIterableIterator<TResult> | Promise<AsyncIterableIterator<TResult>>,
+        options?: IMethodOptions<TArgs, TContext>
+    ): ISubscriptionRegistration<TArgs, TResult, TFilter, TLayout, TContext> {
+        /** Datentyp für die formalen Parameter anlegen. */
+        const argsType = GqlArgs(`${name}_args`, args)
+
+        /** Registrierung anlegen und in die Verwaltung eintragen. */
+        const proxy: ISubscriptionRegistration<TArgs, TResult, TFilter, TLayout, TContext> = {
+            args,
+            argsType,
+            handler: processor,
+            method: {
+                args: argsType.graphQLInputType.getFields(),
+                description,
+                /** Die gemeldeten Werte werden unverändert übernommen. */
+                resolve: (value: TResult) => value,
+                subscribe: (source: unknown, args: TGqlObject<TArgs>, context: TContext, info: GraphQLResolveInfo) => {
+                    /** Aktuelle Parameter prüfen. */
+                    validateAndThrow(args, this._methods[name].argsType, false)
+
+                    /** Überwachung mit geprüften Parametern starten. */
+                    return processor(args, context, info)
+                },
+                type: resultType.outputType,
+            },
+            options,
+            resultType,
+        }
+
+        this._methods[name] = proxy as TRegistration
+
+        return proxy
+    }
+}
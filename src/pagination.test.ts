@@ -0,0 +1,129 @@
+import { deepStrictEqual, strictEqual } from 'node:assert'
+import { describe, it } from 'node:test'
+
+import { graphql, GraphQLError, GraphQLSchema } from 'graphql'
+
+import { Collection } from './collection'
+import { MemoryConnection } from './memory'
+import { createSchemaConfiguration } from './schema'
+import * as types from './types'
+
+/** Die Typdefinition der Entitäten im Test. */
+const Book = types.GqlObject('Book', {
+    _id: types.GqlId({ computed: true }),
+    title: types.GqlString({ sortable: true }),
+    year: types.GqlNullable(types.GqlInt({ sortable: true })),
+})
+
+/** Die Anbindung der Entitäten im Test. */
+class BookCollection extends Collection<typeof Book> {
+    readonly collectionName = 'books'
+}
+
+/** Ein Ergebnisfenster beim seitenweisen Blättern. */
+interface IPage {
+    edges: { cursor: string; node: { title: string } }[]
+    pageInfo: { endCursor: string; hasNextPage: boolean; hasPreviousPage: boolean; startCursor: string }
+}
+
+/**
+ * Legt die Anbindung mit einigen Entitäten an und erstellt eine Methode zum Abrufen
+ * eines Ergebnisfensters - einige Titel und Jahre sind dabei absichtlich doppelt.
+ */
+async function createPager(): Promise<(args: string) => Promise<{ errors?: readonly GraphQLError[]; page?: IPage }>> {
+    const connection = new MemoryConnection()
+    const books = connection.getMemoryCollection<{ _id: string; title: string; year: number | null }>('books')
+
+    await books.insertOne({ _id: '1', title: 'C', year: 2000 })
+    await books.insertOne({ _id: '2', title: 'A', year: null })
+    await books.insertOne({ _id: '3', title: 'B', year: 2000 })
+    await books.insertOne({ _id: '4', title: 'A', year: 1990 })
+    await books.insertOne({ _id: '5', title: 'D', year: null })
+
+    const collection = await connection.createCollection(Book, BookCollection)
+    const schema = new GraphQLSchema(await createSchemaConfiguration({ books: Promise.resolve(collection) }))
+
+    return async (args: string) => {
+        const { data, errors } = await graphql({
+            contextValue: {},
+            schema,
+            source: `{ books { findConnection(${args}) { edges { cursor node { title } } pageInfo { endCursor hasNextPage hasPreviousPage startCursor } } } }`,
+        })
+
+        return { errors, page: (data as { books: { findConnection: IPage } })?.books?.findConnection }
+    }
+}
+
+/**
+ * Ermittelt die Titel in einem Ergebnisfenster.
+ *
+ * @param page das Ergebnisfenster.
+ */
+function getTitles(page: IPage): string[] {
+    return page.edges.map((edge) => edge.node.title)
+}
+
+/**
+ * Blättert mit einer festen Fenstergröße vorwärts durch alle Entitäten.
+ *
+ * @param pager ruft ein einzelnes Ergebnisfenster ab.
+ * @param sort die gewünschte Sortierung.
+ */
+async function pageForward(pager: Awaited<ReturnType<typeof createPager>>, sort: string): Promise<string[]> {
+    const titles: string[] = []
+
+    let page = (await pager(`first: 2, sort: ${sort}`)).page
+
+    titles.push(...getTitles(page))
+
+    while (page.pageInfo.hasNextPage) {
+        page = (await pager(`first: 2, sort: ${sort}, after: "${page.pageInfo.endCursor}"`)).page
+
+        titles.push(...getTitles(page))
+    }
+
+    return titles
+}
+
+describe('pagination', () => {
+    it('pages forward through entities with equal sort values', async () => {
+        const pager = await createPager()
+
+        const ascending = await pageForward(pager, '[{ direction: Ascending, field: title }]')
+        const descending = await pageForward(pager, '[{ direction: Descending, field: title }]')
+
+        deepStrictEqual(ascending, ['A', 'A', 'B', 'C', 'D'])
+        deepStrictEqual(descending, ['D', 'C', 'B', 'A', 'A'])
+    })
+
+    it('sorts missing values before all other values', async () => {
+        const pager = await createPager()
+
+        deepStrictEqual(
+            await pageForward(pager, '[{ direction: Ascending, field: year }, { direction: Ascending, field: title }]'),
+            ['A', 'D', 'A', 'B', 'C']
+        )
+    })
+
+    it('pages backward from a cursor', async () => {
+        const pager = await createPager()
+        const sort = 'sort: [{ direction: Ascending, field: title }]'
+
+        const { page: last } = await pager(`last: 2, ${sort}`)
+
+        deepStrictEqual(getTitles(last), ['C', 'D'])
+        strictEqual(last.pageInfo.hasPreviousPage, true)
+
+        const { page: previous } = await pager(`last: 2, before: "${last.pageInfo.startCursor}", ${sort}`)
+
+        deepStrictEqual(getTitles(previous), ['A', 'B'])
+        strictEqual(previous.pageInfo.hasPreviousPage, true)
+    })
+
+    it('rejects an invalid cursor', async () => {
+        const pager = await createPager()
+        const { errors } = await pager('first: 2, after: "invalid"')
+
+        strictEqual(errors?.[0].extensions.code, 'BAD_USER_INPUT')
+    })
+})
@@ -0,0 +1,136 @@
+import { Filter } from 'mongodb'
+
+import { createError } from './errors'
+import { GqlBase, GqlBoolean, GqlNullable, GqlObject, GqlString, TGqlFilterTypes } from './types'
+
+/** Beschreibung eines Ergebnisfensters beim seitenweisen Blättern - für alle Entitäten identisch. */
+export const PageInfo = GqlObject('PageInfo', {
+    endCursor: GqlNullable(GqlString({ description: 'Position der letzten Entität im Ergebnisfenster.' })),
+    hasNextPage: GqlBoolean({ description: 'Gesetzt, wenn nach dem Ergebnisfenster weitere Entitäten existieren.' }),
+    hasPreviousPage: GqlBoolean({ description: 'Gesetzt, wenn vor dem Ergebnisfenster weitere Entitäten existieren.' }),
+    startCursor: GqlNullable(GqlString({ description: 'Position der ersten Entität im Ergebnisfenster.' })),
+})
+
+/** Ein Wert im Ergebnis einer GraphQL Operation, der auch erst bei Bedarf ermittelt werden kann. */
+export type TLazy<T> = T | (() => Promise<T>)
+
+/**
+ * Stellt einen Wert im Ergebnis einer GraphQL Operation erst bei Bedarf zur Verfügung. GraphQL
+ * ruft Funktionen im Ergebnis selbst auf, aber eben nur dann, wenn das Feld auch angefordert wurde.
+ *
+ * @param factory ermittelt den Wert.
+ */
+export function lazy<T>(factory: () => Promise<T>): TLazy<T> {
+    return factory
+}
+
+/**
+ * Kennzeichnet ein Feld im Ergebnis einer GraphQL Operation, dessen Wert erst bei Bedarf
+ * ermittelt wird - bei einem direkten Aufruf einer Operation erhält man dann die Funktion.
+ *
+ * @param type die Typdefinition des Wertes.
+ */
+export function GqlLazy<TItem, TFilter extends TGqlFilterTypes, TLayout>(
+    type: GqlBase<TItem, TFilter, TLayout>
+): GqlBase<TLazy<TItem>, TFilter, TLayout> {
+    return type
+}
+
+/**
+ * Ermittelt einen Wert aus einem Objekt, wobei auch Felder in Unterobjekten
+ * in der MongoDb Notation mit Punkten angesprochen werden können.
+ *
+ * @param item das zu untersuchende Objekt.
+ * @param path der Name des Feldes.
+ */
+function getValue(item: unknown, path: string): unknown {
+    let value = item
+
+    for (const name of path.split('.')) {
+        if (value === null || value === undefined) {
+            return null
+        }
+
+        value = (value as Record<string, unknown>)[name]
+    }
+
+    return value === undefined ? null : value
+}
+
+/**
+ * Erstellt die Position einer Entität - dabei handelt es sich um die Werte aller
+ * Sortierfelder, die für den Client undurchsichtig verpackt werden.
+ *
+ * @param item die Entität aus der Datenbank.
+ * @param sort die verwendete Sortierung.
+ */
+export function createCursor(item: unknown, sort: Record<string, 1 | -1>): string {
+    /** Zeitpunkte werden gesondert gekennzeichnet, damit sie beim Auspacken wiederhergestellt werden können. */
+    const values = Object.keys(sort).map((field) => {
+        const value = getValue(item, field)
+
+        return value instanceof Date ? { $date: value.toISOString() } : value
+    })
+
+    return Buffer.from(JSON.stringify(values)).toString('base64')
+}
+
+/**
+ * Erstellt eine Suchbedingung für einen einzelnen Vergleich, wobei die Sortierreihenfolge
+ * von MongoDb berücksichtigt wird: nicht gesetzte Werte sind immer kleiner als alle anderen.
+ *
+ * @param field der Name des Feldes.
+ * @param value der Vergleichswert.
+ * @param greater gesetzt, wenn nach größeren Werten gesucht wird.
+ */
+function compare(field: string, value: unknown, greater: boolean): Filter<unknown> | undefined {
+    if (value === null) {
+        return greater ? { [field]: { $ne: null } } : undefined
+    }
+
+    return greater ? { [field]: { $gt: value } } : { $or: [{ [field]: { $lt: value } }, { [field]: null }] }
+}
+
+/**
+ * Erstellt aus einer Position eine Suchbedingung, die alle Entitäten hinter der
+ * Position in Sortierreihenfolge findet.
+ *
+ * @param cursor die Position, wie sie von createCursor erstellt wurde.
+ * @param sort die verwendete Sortierung.
+ */
+export function createCursorFilter(cursor: string, sort: Record<string, 1 | -1>): Filter<unknown> {
+    /** Position auspacken und prüfen. */
+    const fields = Object.keys(sort)
+
+    let values: unknown[]
+
+    try {
+        values = JSON.parse(Buffer.from(cursor, 'base64').toString('utf8'), (key, value) =>
+            value && typeof value === 'object' && typeof value.$date === 'string' ? new Date(value.$date) : value
+        )
+    } catch (error) {
+        values = undefined
+    }
+
+    if (!Array.isArray(values) || values.length !== fields.length) {
+        throw createError('BAD_USER_INPUT', 'invalid cursor')
+    }
+
+    /** Für jedes Sortierfeld eine Alternative erstellen, bei der alle vorherigen Felder identisch sind. */
+    const alternatives: Filter<unknown>[] = []
+
+    for (let i = 0; i < fields.length; i++) {
+        const condition = compare(fields[i], values[i], sort[fields[i]] === 1)
+
+        if (!condition) {
+            continue
+        }
+
+        const equals = fields.slice(0, i).map((field, j) => ({ [field]: values[j] }))
+
+        alternatives.push(equals.length > 0 ? { $and: [...equals, condition] } : condition)
+    }
+
+    /** Hinter der letzten Position kann es nichts mehr geben. */
+    return alternatives.length > 0 ? { $or: alternatives } : { _id: { $exists: false } }
+}
@@ -0,0 +1,377 @@
+import * as validator from 'fastest-validator'
+import * as graphql from 'graphql'
+import * as mongodb from 'mongodb'
+
+import { getCaller, ICaller, isAllowed, maskResult } from './authorization'
+import { IDatabaseCollection } from './connection'
+import { createError, IFieldError } from './errors'
+import { toCountFilter, toMongoFilter } from './filter'
+import {
+    GqlBase,
+    GqlList,
+    GqlRecord,
+    IGqlObjectLayout,
+    IGqlOptions,
+    IGqlOptionsCommon,
+    isGeoPoint,
+    TGqlFilterTypes,
+} from './types'
+
+/** Die Anbindung an die Datenbank, auf deren Entitäten verwiesen wird. */
+export interface IReferenceTarget {
+    /** Die zugehörige Collection (Tabelle) - verwendet wird nur die Suche nach Entitäten. */
+    readonly collection: Promise<Pick<IDatabaseCollection<{ _id: string }>, 'distinct' | 'find'>>
+    /** Gesetzt, wenn Entitäten beim Entfernen nur als entfernt markiert werden - diese gelten dann als nicht existent. */
+    readonly softDelete?: boolean
+    /** Bereitet eine Entität aus der Datenbank als GraphQL Ergebnis auf. */
+    toGraphQL(item: unknown, context: unknown): Promise<unknown>
+}
+
+/** Ermittelt die Anbindung an die Datenbank, auf deren Entitäten verwiesen wird. */
+export type TGetReferenceTarget = () => IReferenceTarget | Promise<IReferenceTarget>
+
+/**
+ * Erstellt die Suchbedingung für alle Entitäten, auf die verwiesen werden kann - entfernte
+ * Entitäten werden dabei nicht berücksichtigt.
+ *
+ * @param target die Anbindung an die Datenbank.
+ * @param filter die Suchbedingung auf die Entitäten.
+ */
+function createTargetFilter(
+    target: IReferenceTarget,
+    filter: mongodb.Filter<{ _id: string }>
+): mongodb.Filter<{ _id: string }> {
+    return (target.softDelete ? { ...filter, _deletedAt: null } : filter) as mongodb.Filter<{ _id: string }>
+}
+
+/**
+ * Lädt innerhalb eines GraphQL Aufrufs die Entitäten, auf die verwiesen wird. Alle
+ * gleichzeitig angeforderten Entitäten werden mit einer einzigen Suche ermittelt - danach
+ * werden sie wieder vergessen, so dass auch lange laufende Überwachungen aktuelle Entitäten
+ * erhalten.
+ */
+class ReferenceLoader {
+    /** Alle angeforderten Entitäten, deren Suche noch nicht abgeschlossen ist. */
+    private readonly _items = new Map<string, Promise<unknown>>()
+
+    /** Alle Anforderungen, die noch nicht an die Datenbank übermittelt wurden. */
+    private _pending: Map<string, { reject(error: unknown): void; resolve(item: unknown): void }>
+
+    /**
+     * Erstellt eine neue Ladehilfe.
+     *
+     * @param _target die Anbindung an die Datenbank.
+     */
+    constructor(private readonly _target: IReferenceTarget) {}
+
+    /**
+     * Fordert eine Entität an.
+     *
+     * @param _id die eindeutige Kennung der Entität.
+     */
+    load(_id: string): Promise<unknown> {
+        let item = this._items.get(_id)
+
+        if (item) {
+            return item
+        }
+
+        /** Die Suche erst nach allen gleichzeitig ausgeführten Anforderungen starten. */
+        if (!this._pending) {
+            this._pending = new Map()
+
+            Promise.resolve().then(() => process.nextTick(() => this._dispatch()))
+        }
+
+        const pending = this._pending
+
+        item = new Promise((resolve, reject) => pending.set(_id, { reject, resolve }))
+
+        this._items.set(_id, item)
+
+        return item
+    }
+
+    /** Führt die Suche nach allen angeforderten Entitäten durch. */
+    private async _dispatch(): Promise<void> {
+        const pending = this._pending
+
+        this._pending = undefined
+
+        try {
+            const self = await this._target.collection
+            const items = await self
+                .find(createTargetFilter(this._target, { _id: { $in: Array.from(pending.keys()) } }))
+                .toArray()
+            const byId = new Map(items.map((item) => [item._id as string, item]))
+
+            pending.forEach((request, _id) => request.resolve(byId.get(_id) || null))
+        } catch (error) {
+            pending.forEach((request) => request.reject(error))
+        } finally {
+            pending.forEach((request, _id) => this._items.delete(_id))
+        }
+    }
+}
+
+/** Die Ladehilfen zu jedem GraphQL Kontext. */
+const loaders = new WeakMap<object, Map<IReferenceTarget, ReferenceLoader>>()
+
+/**
+ * Ermittelt die Ladehilfe für eine Anbindung innerhalb eines GraphQL Aufrufs.
+ *
+ * @param target die Anbindung an die Datenbank.
+ * @param context der GraphQL Kontext des Aufrufs.
+ */
+function getLoader(target: IReferenceTarget, context: unknown): ReferenceLoader {
+    /** Ohne einen echten Kontext gibt es auch keine Zusammenfassung. */
+    if (!context || typeof context !== 'object') {
+        return new ReferenceLoader(target)
+    }
+
+    let perContext = loaders.get(context)
+
+    if (!perContext) {
+        loaders.set(context, (perContext = new Map()))
+    }
+
+    let loader = perContext.get(target)
+
+    if (!loader) {
+        perContext.set(target, (loader = new ReferenceLoader(target)))
+    }
+
+    return loader
+}
+
+/** Typdefinition für einen Verweis auf eine Entität in einer anderen Collection (Tabelle). */
+export class GqlReferenceType<TModel extends GqlRecord<unknown, unknown>> extends GqlBase<string, 'reference', TModel> {
+    /**
+     * Erstellt eine neue Typdefinition.
+     *
+     * @param options die Feineinstellungen für die Typdefinition.
+     * @param sortable gesetzt, wenn nach der eindeutigen Kennung sortiert werden kann.
+     * @param getTarget ermittelt die Anbindung an die Datenbank.
+     * @param _getModel ermittelt die Typdefinition der Entitäten.
+     */
+    constructor(
+        options: Omit<IGqlOptionsCommon<validator.RuleCustom>, 'sortable'>,
+        sortable: boolean,
+        public readonly getTarget: TGetReferenceTarget,
+        private readonly _getModel: () => TModel
+    ) {
+        super(options, sortable, graphql.GraphQLID)
+    }
+
+    /** Die Typdefinition der Entitäten. */
+    get model(): TModel {
+        return this._getModel()
+    }
+
+    /** Im Ergebnis wird die vollständige Entität gemeldet. */
+    get outputType(): graphql.GraphQLOutputType {
+        const type = this.model.graphQLType
+
+        return this.options.validation?.optional ? type : new graphql.GraphQLNonNull(type)
+    }
+
+    /** Ermittelt zur eindeutigen Kennung die Entität. */
+    readonly resolveOutput = async (value: unknown, context: unknown): Promise<unknown> => {
+        if (typeof value !== 'string') {
+            return null
+        }
+
+        const target = await this.getTarget()
+        const item = await getLoader(target, context).load(value)
+
+        /** Die Zugriffsrechte des Aufrufers müssen auch hier berücksichtigt werden. */
+        return item && maskResult(await target.toGraphQL(item, context), this.model, (await getCaller(context)) || {})
+    }
+}
+
+/**
+ * Typdefinition für einen Verweis auf eine Entität in einer anderen Collection (Tabelle). In
+ * der Datenbank und bei Eingaben wird die eindeutige Kennung verwendet, im Ergebnis die Entität.
+ * Die Typdefinition wird getrennt von der Anbindung angegeben, da sie bereits für das GraphQL
+ * Schema benötigt wird, die Anbindung aber oft erst asynchron zur Verfügung steht.
+ *
+ * @param getTarget ermittelt die Anbindung an die Datenbank.
+ * @param getModel ermittelt die Typdefinition der Entitäten - über eine Funktion sind auch gegenseitige Verweise möglich.
+ * @param options Optionale Feineinstellungen für die Typdefinition.
+ */
+export function GqlReference<TModel extends GqlRecord<unknown, unknown>>(
+    getTarget: TGetReferenceTarget,
+    getModel: () => TModel,
+    options?: IGqlOptions<validator.RuleString, 'string'>
+) {
+    return new GqlReferenceType<TModel>(
+        {
+            ...options,
+            validation: { ...options?.validation, empty: false, type: 'string' },
+        },
+        options?.sortable === true,
+        getTarget,
+        getModel
+    )
+}
+
+/**
+ * Ermittelt alle Verweise in einem Wert.
+ *
+ * @param value der Wert.
+ * @param type die Typdefinition des Wertes.
+ * @param path der Pfad zum Wert.
+ * @param found alle bisher gefundenen Verweise.
+ */
+function collectReferences(
+    value: unknown,
+    type: GqlBase<unknown, TGqlFilterTypes, unknown>,
+    path: string,
+    found: { _id: string; path: string; type: GqlReferenceType<GqlRecord<unknown, unknown>> }[]
+): void {
+    if (value === null || value === undefined) {
+        return
+    }
+
+    if (type instanceof GqlReferenceType) {
+        found.push({ _id: value as string, path, type })
+    } else if (type instanceof GqlList) {
+        if (Array.isArray(value)) {
+            value.forEach((element, index) => collectReferences(element, type.item, `${path}[${index}]`, found))
+        }
+    } else if (type instanceof GqlRecord) {
+        const layout = type.layout as IGqlObjectLayout
+
+        for (const field of Object.keys(layout || {})) {
+            if (layout[field]) {
+                collectReferences(
+                    (value as Record<string, unknown>)[field],
+                    layout[field],
+                    path ? `${path}.${field}` : field,
+                    found
+                )
+            }
+        }
+    }
+}
+
+/**
+ * Prüft, ob alle Verweise in einer Entität auf existierende Entitäten zeigen.
+ *
+ * @param item die zu prüfende Entität.
+ * @param model die Typdefinition der Entität.
+ */
+export async function checkReferences(item: unknown, model: GqlRecord<unknown, unknown>): Promise<void> {
+    const found: Parameters<typeof collectReferences>[3] = []
+
+    collectReferences(item, model, '', found)
+
+    if (found.length < 1) {
+        return
+    }
+
+    /** Alle Verweise auf dieselbe Collection (Tabelle) werden gemeinsam geprüft. */
+    const errors: IFieldError[] = []
+    const targets = new Map<IReferenceTarget, typeof found>()
+
+    for (const reference of found) {
+        const target = await reference.type.getTarget()
+        const references = targets.get(target)
+
+        if (references) {
+            references.push(reference)
+        } else {
+            targets.set(target, [reference])
+        }
+    }
+
+    for (const [target, references] of targets) {
+        const self = await target.collection
+        const existing = new Set(
+            await self.distinct('_id', createTargetFilter(target, { _id: { $in: references.map((r) => r._id) } }))
+        )
+
+        for (const reference of references) {
+            if (!existing.has(reference._id)) {
+                errors.push({
+                    actual: reference._id,
+                    field: reference.path,
+                    message: `The '${reference.path}' field must reference an existing entity.`,
+                    type: 'reference',
+                })
+            }
+        }
+    }
+
+    if (errors.length > 0) {
+        throw createError('BAD_USER_INPUT', 'bad item', { fields: errors })
+    }
+}
+
+/**
+ * Ersetzt in einem GraphQL Filter alle Bedingungen auf Verweise durch eine Liste der
+ * eindeutigen Kennungen aller passenden Entitäten. Bedingungen auf Felder, die der Aufrufer
+ * nicht auslesen darf, werden abgelehnt - das Ergebnis würde sonst deren Werte verraten.
+ *
+ * @param gqlFilter der GraphQL Filter.
+ * @param model die Typdefinition der gefilterten Entitäten.
+ * @param caller der Aufrufer.
+ */
+export async function resolveReferenceFilter(
+    gqlFilter: unknown,
+    model: GqlRecord<unknown, unknown>,
+    caller: ICaller
+): Promise<unknown> {
+    if (!gqlFilter || typeof gqlFilter !== 'object') {
+        return gqlFilter
+    }
+
+    const layout = (model.layout || {}) as IGqlObjectLayout
+    const resolved: Record<string, unknown> = {}
+
+    for (const field of Object.keys(gqlFilter)) {
+        const ops = (gqlFilter as Record<string, unknown>)[field]
+
+        /** Logische Operationen werden rekursiv ausgewertet. */
+        if (Array.isArray(ops)) {
+            resolved[field] = await Promise.all(ops.map((f) => resolveReferenceFilter(f, model, caller)))
+
+            continue
+        }
+
+        /** Not und ElemMatch beziehen sich auf dieselbe Typdefinition. */
+        if (field === 'Not' || field === 'ElemMatch') {
+            resolved[field] = await resolveReferenceFilter(ops, model, caller)
+
+            continue
+        }
+
+        /** Bei Feldern zählt der Elementtyp. */
+        let type = layout[field]
+
+        if (type && !isAllowed(caller, type.options.access?.read)) {
+            throw createError('FORBIDDEN', 'field not allowed', { field })
+        }
+
+        if (type instanceof GqlList) {
+            type = type.item
+        }
+
+        if (type instanceof GqlReferenceType) {
+            /** Alle passenden Entitäten ermitteln. */
+            const target = await type.getTarget()
+            const self = await target.collection
+            const filter = toCountFilter(toMongoFilter(await resolveReferenceFilter(ops, type.model, caller)))
+
+            resolved[field] = {
+                In: await self.distinct('_id', createTargetFilter(target, filter as mongodb.Filter<{ _id: string }>)),
+            }
+        } else if (type instanceof GqlRecord && !isGeoPoint(type)) {
+            resolved[field] = await resolveReferenceFilter(ops, type, caller)
+        } else {
+            resolved[field] = ops
+        }
+    }
+
+    return resolved
+}
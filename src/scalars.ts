@@ -0,0 +1,71 @@
+import * as graphql from 'graphql'
+
+/** Ein Datum ohne Uhrzeit in der ISO Notation. */
+const datePattern = /^(\d{4})-(\d{2})-(\d{2})$/
+
+/**
+ * Wandelt einen Wert aus der Datenbank in einen Zeitpunkt um - aus historischen
+ * Gründen werden auch Zeichenketten in der ISO Notation akzeptiert.
+ *
+ * @param value der Wert aus der Datenbank.
+ * @param name der Name des GraphQL Typs.
+ */
+function toDate(value: unknown, name: string): Date {
+    const date = value instanceof Date ? value : typeof value === 'string' ? new Date(value) : undefined
+
+    if (!date || isNaN(date.getTime())) {
+        throw new graphql.GraphQLError(`${name} cannot represent value: ${JSON.stringify(value)}`)
+    }
+
+    return date
+}
+
+/**
+ * Wandelt ein Datum in der ISO Notation in einen Zeitpunkt um - immer um Mitternacht UTC.
+ *
+ * @param value der Wert vom Client.
+ */
+function parseDate(value: unknown): Date {
+    const match = typeof value === 'string' && datePattern.exec(value)
+    const date = match && new Date(Date.UTC(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10)))
+
+    /** Ungültige Angaben wie der 31. Februar werden von JavaScript einfach verschoben. */
+    if (!date || date.toISOString().substring(0, 10) !== value) {
+        throw new graphql.GraphQLError(`Date cannot represent value: ${JSON.stringify(value)}`)
+    }
+
+    return date
+}
+
+/**
+ * Wandelt einen Zeitpunkt in der ISO Notation in einen Zeitpunkt um.
+ *
+ * @param value der Wert vom Client.
+ */
+function parseDateTime(value: unknown): Date {
+    const date = typeof value === 'string' && value.includes('T') && new Date(value)
+
+    if (!date || isNaN(date.getTime())) {
+        throw new graphql.GraphQLError(`DateTime cannot represent value: ${JSON.stringify(value)}`)
+    }
+
+    return date
+}
+
+/** GraphQL Typ für ein Datum ohne Uhrzeit - in der Datenbank als Zeitpunkt um Mitternacht UTC abgelegt. */
+export const GraphQLDate = new graphql.GraphQLScalarType<Date, string>({
+    description: 'Ein Datum ohne Uhrzeit in der Notation YYYY-MM-DD.',
+    name: 'Date',
+    parseLiteral: (ast) => parseDate(ast.kind === graphql.Kind.STRING ? ast.value : undefined),
+    parseValue: parseDate,
+    serialize: (value) => toDate(value, 'Date').toISOString().substring(0, 10),
+})
+
+/** GraphQL Typ für einen Zeitpunkt. */
+export const GraphQLDateTime = new graphql.GraphQLScalarType<Date, string>({
+    description: 'Ein Zeitpunkt in der ISO 8601 Notation.',
+    name: 'DateTime',
+    parseLiteral: (ast) => parseDateTime(ast.kind === graphql.Kind.STRING ? ast.value : undefined),
+    parseValue: parseDateTime,
+    serialize: (value) => toDate(value, 'DateTime').toISOString(),
+})
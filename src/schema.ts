@@ -1,5 +1,6 @@
 import { GraphQLNamedType, GraphQLObjectType, GraphQLFieldConfigMap, GraphQLSchemaConfig } from 'graphql'
 
+import { TGetCaller } from './authorization'
 import { Collection } from './collection'
 
 import { GqlArgs, GqlObject, GqlString, GqlArray, TGqlType } from './types'
@@ -17,21 +18,35 @@ const validationResult = GqlObject('ValidationInformation', {
 /** Prüfinformationen für alle bekannten Entitäten. */
 const validationResults = GqlArray(validationResult)
 
+/** Zusätzliche Einstellungen für die Erstellung eines GraphQL Schemas. */
+export interface ISchemaOptions<TContext = unknown> {
+    /** Optional die Ermittlung des Aufrufers für die Prüfung von Zugriffsrechten. */
+    getCaller?: TGetCaller<TContext>
+}
+
 /**
  * Erstellt eine Konfiguration für ein GraphQL Schema.
  *
  * @param collections alle zu verwendenden Arten von Entitäten in Form ihrer Zugriffsklassen.
+ * @param options optional zusätzliche Einstellungen.
  */
-export async function createSchemaConfiguration(collections: {
+export async function createSchemaConfiguration(
+    collections: {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        [qglName: string]: Promise<Collection<any, any, any, any>>
+    },
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    [qglName: string]: Promise<Collection<any, any>>
-}): Promise<GraphQLSchemaConfig> {
+    options?: ISchemaOptions<any>
+): Promise<GraphQLSchemaConfig> {
     /** Alle Prüfinformationen. */
     const validations: TGqlType<typeof validationResults> = []
 
     /** Alle Änderungsoperationen. */
     const mutations: GraphQLFieldConfigMap<unknown, unknown> = {}
 
+    /** Alle Überwachungen. */
+    const subscriptions: GraphQLFieldConfigMap<unknown, unknown> = {}
+
     /** Alle Suchoperationen. */
     const queries: GraphQLFieldConfigMap<unknown, unknown> = {
         /** Abfrage aller bekannten Prüfinformationen. */
@@ -52,19 +67,26 @@ export async function createSchemaConfiguration(collections: {
         const { model } = collection
 
         /** Alle Suchoperationen. */
-        const typeQueries = collection.queries.methods
+        const typeQueries = collection.queries.getMethods(options?.getCaller)
 
         if (Object.keys(typeQueries).length > 0) {
             queries[field] = typeQueries
         }
 
         /** Alle Änderungsoperationen. */
-        const typeMutations = collection.mutations.methods
+        const typeMutations = collection.mutations.getMethods(options?.getCaller)
 
         if (Object.keys(typeMutations).length > 0) {
             mutations[field] = typeMutations
         }
 
+        /** Alle Überwachungen - GraphQL erlaubt hier keine Schachtelung, daher wird der Name vorangestellt. */
+        const typeSubscriptions = collection.subscriptions.getFields(options?.getCaller)
+
+        for (const name of Object.keys(typeSubscriptions)) {
+            subscriptions[`${field}${name.substring(0, 1).toUpperCase()}${name.substring(1)}`] = typeSubscriptions[name]
+        }
+
         /** Alle GraphQL Typen. */
         model.graphQLTypes.forEach((t) => (types[t.name] = t))
 
@@ -83,6 +105,10 @@ export async function createSchemaConfiguration(collections: {
                 ? new GraphQLObjectType({ fields: mutations, name: 'Mutation' })
                 : undefined,
         query: new GraphQLObjectType({ fields: queries, name: 'Query' }),
+        subscription:
+            Object.keys(subscriptions).length > 0
+                ? new GraphQLObjectType({ fields: subscriptions, name: 'Subscription' })
+                : undefined,
         types: Object.values(types),
     }
 }
@@ -0,0 +1,138 @@
+import * as graphql from 'graphql'
+
+import { Collection } from './collection'
+import { createSchemaConfiguration, ISchemaOptions } from './schema'
+
+/** Die Arten von Abweichungen, die bestehende Clients stören können. */
+export type TSchemaChangeKind =
+    'ENUM_VALUE_REMOVED' | 'FIELD_REMOVED' | 'NULLABLE_REMOVED' | 'OTHER' | 'REQUIRED_INPUT_ADDED'
+
+/** Eine Abweichung zwischen einem gespeicherten und dem aktuellen GraphQL Schema. */
+export interface ISchemaChange {
+    /** Die Beschreibung der Abweichung. */
+    description: string
+    /** Die Art der Abweichung. */
+    kind: TSchemaChangeKind
+}
+
+/** Die eigene Einordnung der Abweichungen, die GraphQL selbst erkennt. */
+const breakingKinds: Partial<Record<graphql.BreakingChangeType, TSchemaChangeKind>> = {
+    [graphql.BreakingChangeType.FIELD_REMOVED]: 'FIELD_REMOVED',
+    [graphql.BreakingChangeType.REQUIRED_ARG_ADDED]: 'REQUIRED_INPUT_ADDED',
+    [graphql.BreakingChangeType.REQUIRED_INPUT_FIELD_ADDED]: 'REQUIRED_INPUT_ADDED',
+    [graphql.BreakingChangeType.VALUE_REMOVED_FROM_ENUM]: 'ENUM_VALUE_REMOVED',
+}
+
+/**
+ * Erstellt die textuelle Beschreibung (SDL) des GraphQL Schemas.
+ *
+ * @param collections alle zu verwendenden Arten von Entitäten in Form ihrer Zugriffsklassen.
+ * @param options optional zusätzliche Einstellungen.
+ */
+export async function printSchemaDefinition(
+    collections: {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        [qglName: string]: Promise<Collection<any, any, any, any>>
+    },
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    options?: ISchemaOptions<any>
+): Promise<string> {
+    return graphql.printSchema(new graphql.GraphQLSchema(await createSchemaConfiguration(collections, options)))
+}
+
+/**
+ * Prüft, ob ein Typ nur durch das Entfernen von GqlNullable aus einem anderen Typ entstanden ist.
+ *
+ * @param before der ursprüngliche Typ.
+ * @param after der aktuelle Typ.
+ */
+function isNullableRemoved(before: graphql.GraphQLType, after: graphql.GraphQLType): boolean {
+    return !graphql.isNonNullType(before) && graphql.isNonNullType(after) && `${before}` === `${after.ofType}`
+}
+
+/**
+ * Prüft, ob ein Typ nur durch das Hinzufügen von GqlNullable - auch bei den Elementen eines
+ * Feldes - aus einem anderen Typ entstanden ist.
+ *
+ * @param before der ursprüngliche Typ in Textform.
+ * @param after der aktuelle Typ in Textform.
+ */
+function isNullableAdded(before: string, after: string): boolean {
+    let index = 0
+
+    for (const char of before) {
+        if (char === after[index]) {
+            index++
+        } else if (char !== '!') {
+            return false
+        }
+    }
+
+    return index === after.length && before !== after
+}
+
+/**
+ * Ermittelt alle Felder von Ergebnissen, die nicht mehr leer sein dürfen. GraphQL selbst
+ * meldet dies nicht, allerdings verlassen sich Clients oft auf die genaue Form der Typen.
+ *
+ * @param before das gespeicherte Schema.
+ * @param after das aktuelle Schema.
+ */
+function findNullableRemoved(before: graphql.GraphQLSchema, after: graphql.GraphQLSchema): ISchemaChange[] {
+    const changes: ISchemaChange[] = []
+    const types = after.getTypeMap()
+
+    for (const type of Object.values(before.getTypeMap())) {
+        const current = types[type.name]
+
+        if (!graphql.isObjectType(type) || !graphql.isObjectType(current)) {
+            continue
+        }
+
+        const fields = current.getFields()
+
+        for (const field of Object.values(type.getFields())) {
+            const currentField = fields[field.name]
+
+            if (currentField && isNullableRemoved(field.type, currentField.type)) {
+                changes.push({
+                    description: `${type.name}.${field.name} changed type from ${field.type} to ${currentField.type}.`,
+                    kind: 'NULLABLE_REMOVED',
+                })
+            }
+        }
+    }
+
+    return changes
+}
+
+/**
+ * Vergleicht ein gespeichertes GraphQL Schema mit dem aktuellen Schema und meldet alle
+ * Abweichungen, die bereits ausgelieferte Clients stören können.
+ *
+ * @param snapshot die textuelle Beschreibung (SDL) des gespeicherten Schemas.
+ * @param current die textuelle Beschreibung (SDL) des aktuellen Schemas.
+ */
+export function compareSchemaDefinitions(snapshot: string, current: string): ISchemaChange[] {
+    const before = graphql.buildSchema(snapshot)
+    const after = graphql.buildSchema(current)
+
+    /** Darf ein Feld eines Ergebnisses nun leer sein, muss ein Client das zwar beachten, der Aufruf selbst bleibt aber gültig. */
+    const breaking = graphql.findBreakingChanges(before, after).filter(({ description, type }) => {
+        const [, from, to] = /from (\S+) to (\S+)\.$/.exec(description) || []
+
+        return type !== graphql.BreakingChangeType.FIELD_CHANGED_KIND || !from || !isNullableAdded(from, to)
+    })
+
+    const changes = breaking.map<ISchemaChange>(({ description, type }) => {
+        /** Bei Eingaben meldet GraphQL jede Änderung des Typs gleich - auch das Entfernen von GqlNullable. */
+        const nullable =
+            (type === graphql.BreakingChangeType.ARG_CHANGED_KIND ||
+                type === graphql.BreakingChangeType.FIELD_CHANGED_KIND) &&
+            /from (\S+) to \1!\.$/.test(description)
+
+        return { description, kind: nullable ? 'NULLABLE_REMOVED' : breakingKinds[type] || 'OTHER' }
+    })
+
+    return [...changes, ...findNullableRemoved(before, after)]
+}
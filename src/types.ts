@@ -5,6 +5,7 @@ import * as graphql from 'graphql'
 
 import { convertForUpdate } from './validation'
 import { TSortDirection } from './enum'
+import { GraphQLDate, GraphQLDateTime } from './scalars'
 
 /** Entfernt die Markierung einer Typdefinition als optional. */
 type XOmitNullable<T> = T extends infer T1 & { nullable?: never } ? T1 : T
@@ -17,7 +18,17 @@ export type TGqlType<TGql> = XOmitNullable<TGql> extends GqlRecord<infer TItem,
     : never
 
 /** Die Arten von Filterbedingungen. */
-export type TGqlFilterTypes = 'string' | 'int' | 'float' | 'boolean' | 'enum' | 'object' | 'unknown'
+export type TGqlFilterTypes =
+    | 'string'
+    | 'int'
+    | 'float'
+    | 'boolean'
+    | 'date'
+    | 'enum'
+    | 'geo'
+    | 'object'
+    | 'reference'
+    | 'unknown'
 
 /** Ermittelt zu einer Typdefinition die zugehörige Filterbeschreibung. */
 export type TGqlFilterType<TGql> = XOmitNullable<TGql> extends GqlRecord<infer TItem, infer TLayout, infer TFilter>
@@ -33,14 +44,28 @@ export type TGqlLayoutType<TGql> = XOmitNullable<TGql> extends GqlRecord<infer T
     ? TLayout
     : never
 
+/** Beschreibt die Zugriffsrechte auf ein Feld. */
+export interface IGqlAccess {
+    /** Die Rollen, die das Feld auslesen dürfen - ohne Angabe gibt es keine Einschränkung. */
+    read?: string[]
+}
+
 /** Basisklasse für die Optionen aller Datentypen. */
 export interface IGqlOptionsCommon<TValidation> {
+    /** Optional die Einschränkung der Zugriffsrechte auf das Feld. */
+    access?: IGqlAccess
     /** Für berechnete Felder gesetzt - diese können werden beim Anlegen noch beim Ändern explizit überschrieben werden. */
     computed?: boolean
     /** Gesetzt, wenn nach dem Feld sortiert werden kann. */
     sortable?: boolean
     /** Eine optionale Beschreibung für den GraphQL Typ. */
     description?: string
+    /** Gesetzt, wenn für das Feld ein Index in der Datenbank angelegt werden soll. */
+    index?: boolean
+    /** Gesetzt, wenn eine Zeichenkette in die Volltextsuche einbezogen wird - eine Zahl legt die Gewichtung fest. */
+    searchable?: boolean | number
+    /** Gesetzt, wenn die Werte des Feldes in der Datenbank eindeutig sein müssen. */
+    unique?: boolean
     /** Optional die zugehörigen Prüfinformationen - es wird immer eine Prüfung auf den JavaScript Datentyp eingestellt. */
     validation?: TValidation
 }
@@ -102,6 +127,9 @@ export class GqlBase<TItem, TFilter extends TGqlFilterTypes, TLayout = unknown>
     // @ts-ignore
     private readonly _layoutType?: TLayout
 
+    /** Optional die Aufbereitung eines Wertes aus der Datenbank für den GraphQL Aufrufer - etwa bei Verweisen. */
+    readonly resolveOutput?: (value: unknown, context: unknown) => Promise<unknown>
+
     /** Der volle GraphQL Datentyp - als NonNull wenn die Prüfinformationen den Wert als optional anzeigen. */
     get outputType(): graphql.GraphQLOutputType {
         return this.options.validation?.optional ? this._graphQLType : new graphql.GraphQLNonNull(this._graphQLType)
@@ -251,21 +279,73 @@ export function GqlBoolean(options?: IGqlOptions<validator.RuleBoolean, 'boolean
     )
 }
 
+/** Typdefinition für ein Datum ohne Uhrzeit - in der Datenbank als Zeitpunkt um Mitternacht UTC abgelegt. */
+export function GqlDate(options?: IGqlOptions<validator.RuleDate, 'date'>) {
+    return new GqlBase<Date, 'date'>(
+        {
+            ...options,
+            validation: { ...options?.validation, type: 'date' },
+        },
+        options?.sortable === true,
+        GraphQLDate
+    )
+}
+
+/** Typdefinition für einen Zeitpunkt. */
+export function GqlDateTime(options?: IGqlOptions<validator.RuleDate, 'date'>) {
+    return new GqlBase<Date, 'date'>(
+        {
+            ...options,
+            validation: { ...options?.validation, type: 'date' },
+        },
+        options?.sortable === true,
+        GraphQLDateTime
+    )
+}
+
+/** Typdefinition für ein Feld, wobei die Typdefinition der Elemente erhalten bleibt. */
+export class GqlList<TItem, TFilter extends TGqlFilterTypes, TLayout> extends GqlBase<TItem, TFilter, TLayout> {
+    constructor(
+        options: Omit<IGqlOptionsCommon<validator.RuleCustom>, 'sortable'>,
+        public readonly item: GqlBase<unknown, TGqlFilterTypes, unknown>
+    ) {
+        super(
+            options,
+            item.sortable,
+            undefined,
+            new graphql.GraphQLList(item.inputType),
+            new graphql.GraphQLList(item.inputType)
+        )
+    }
+
+    /** Die Elemente werden einzeln aufbereitet, sofern dies für die Elemente vorgesehen ist. */
+    readonly resolveOutput =
+        this.item.resolveOutput &&
+        ((value: unknown, context: unknown) =>
+            Array.isArray(value)
+                ? Promise.all(value.map((element) => this.item.resolveOutput(element, context)))
+                : Promise.resolve(value))
+
+    /** Der GraphQL Typ wird erst bei Bedarf erstellt - die Elemente können auf noch nicht vollständig definierte Typen verweisen. */
+    get outputType(): graphql.GraphQLOutputType {
+        const type = new graphql.GraphQLList(this.item.outputType)
+
+        return this.options.validation?.optional ? type : new graphql.GraphQLNonNull(type)
+    }
+}
+
 /** Typdefinition für ein Feld. */
 export function GqlArray<TItem, TFilter extends TGqlFilterTypes, TLayout, T extends GqlBase<TItem, TFilter, TLayout>>(
     item: T,
     options?: Omit<IGqlOptions<validator.RuleArray, 'array'>, 'sortable'>
 ) {
     /** Typdefinition anlegen und vor allem die Prüfungen auf die Kindelement ausdehnen. */
-    return new GqlBase<TGqlType<T>[], TGqlFilterType<T>, TGqlLayoutType<T>>(
+    return new GqlList<TGqlType<T>[], TGqlFilterType<T>, TGqlLayoutType<T>>(
         {
             ...options,
             validation: { ...options?.validation, items: item.validations, type: 'array' },
         },
-        item.sortable,
-        new graphql.GraphQLList(item.outputType),
-        new graphql.GraphQLList(item.inputType),
-        new graphql.GraphQLList(item.inputType)
+        item
     )
 }
 
@@ -290,6 +370,25 @@ export function GqlNullable<
     return item as TGql & { nullable?: never }
 }
 
+/**
+ * Typdefinition für die Änderung eines Objektes, bei der alle Felder optional sind - wie bei
+ * registerUpdate, aber auf einen einzelnen Parameter beschränkt.
+ *
+ * @param type die Typdefinition des Objektes.
+ */
+export function GqlPartial<TItem, TLayout>(type: GqlRecord<TItem, TLayout>) {
+    const validation = type.options.validation as validator.RuleObject
+
+    return new GqlRecord<Partial<TItem>, TLayout>(
+        { ...type.options, validation: { ...validation, properties: convertForUpdate(validation.properties || {}) } },
+        false,
+        type.graphQLType,
+        type.graphQLUpdateType,
+        type.graphQLUpdateType,
+        type.layout
+    )
+}
+
 /** Filtert alle optionalen Eigenschaften. */
 type TGetNullable<TLayout> = {
     [field in keyof TLayout]: TLayout[field] extends { nullable?: never } ? field : never
@@ -350,6 +449,17 @@ export class GqlRecord<TItem, TLayout, TFilter extends TGqlFilterTypes = 'object
     TFilter,
     TLayout
 > {
+    constructor(
+        options: Omit<IGqlOptionsCommon<validator.RuleCustom>, 'sortable'>,
+        sortable: boolean | string[],
+        graphQLType: graphql.GraphQLObjectType,
+        graphQLInputType: graphql.GraphQLInputObjectType,
+        graphQLUpdateType: graphql.GraphQLInputObjectType,
+        public readonly layout: TLayout
+    ) {
+        super(options, sortable, graphQLType, graphQLInputType, graphQLUpdateType)
+    }
+
     /** Der ursprüngliche GraphQL Typ zum Anlegen neuer Informationen. */
     get graphQLInputType(): graphql.GraphQLInputObjectType {
         return this._graphQLInputType as graphql.GraphQLInputObjectType
@@ -360,6 +470,11 @@ export class GqlRecord<TItem, TLayout, TFilter extends TGqlFilterTypes = 'object
         return this._graphQLUpdateType as graphql.GraphQLInputObjectType
     }
 
+    /** Die Feineinstellungen für die Ablage als Entität in der Datenbank. */
+    get objectOptions(): IGqlObjectOptions {
+        return this.options as IGqlObjectOptions
+    }
+
     /** Der ursprüngliche GraphQL Typ. */
     get graphQLType(): graphql.GraphQLObjectType {
         return this._graphQLType as graphql.GraphQLObjectType
@@ -426,6 +541,40 @@ export interface IGqlObjectLayout {
     [field: string]: GqlBase<unknown, TGqlFilterTypes>
 }
 
+/** Feineinstellungen für das Entfernen von Entitäten ohne physikalisches Löschen. */
+export interface IGqlSoftDeleteOptions {
+    /** Optional die Rollen, die entfernte Entitäten sehen, wiederherstellen und endgültig löschen dürfen - sonst niemand. */
+    roles?: string[]
+}
+
+/** Beschreibt einen zusätzlichen Index in der Datenbank. */
+export interface IGqlIndex {
+    /** Optional die Lebensdauer von Entitäten in Sekunden - das erste Feld muss dann einen Zeitpunkt enthalten. */
+    expireAfterSeconds?: number
+    /** Die Felder des Index mit der jeweiligen Sortierung, Unterobjekte werden durch Punkte getrennt. */
+    fields: Record<string, 1 | -1>
+    /** Optional der Name des Index. */
+    name?: string
+    /** Gesetzt, wenn die Werte in der Datenbank eindeutig sein müssen. */
+    unique?: boolean
+}
+
+/** Feineinstellungen für ein Objekt, die vor allem bei der Ablage als Entität in der Datenbank ausgewertet werden. */
+export interface IGqlObjectOptions extends IGqlOptions<validator.RuleObject, 'object'> {
+    /** Gesetzt, wenn zu jeder Veränderung einer Entität eine Version vermerkt wird. */
+    history?: boolean
+    /** Optional zusätzliche Indexe, etwa über mehrere Felder oder mit einer Lebensdauer. */
+    indexes?: IGqlIndex[]
+    /** Optional die Felder, über die eine Entität fachlich eindeutig identifiziert wird. */
+    naturalKey?: string[]
+    /** Gesetzt, wenn Entitäten beim Entfernen nur als entfernt markiert werden. */
+    softDelete?: boolean | IGqlSoftDeleteOptions
+    /** Gesetzt, wenn Zeitpunkt und Aufrufer beim Anlegen und Ändern einer Entität automatisch vermerkt werden. */
+    timestamps?: boolean
+    /** Gesetzt, wenn die Entitäten eine Version für die optimistische Nebenläufigkeit verwalten. */
+    versioned?: boolean
+}
+
 /** Hilfsmethode um Feineinstellungen an GraphQL Typen vorzunehmen. */
 type TFieldGetter = <TFields>(
     fields: TFields,
@@ -449,19 +598,101 @@ function createObject<TLayout extends IGqlObjectLayout>(
     isArgs: boolean,
     name: string,
     item: TLayout,
-    options?: Omit<IGqlOptions<validator.RuleObject, 'object'>, 'sortable'>,
+    options?: Omit<IGqlObjectOptions, 'sortable'>,
     noValidation?: boolean,
     fieldGetter?: TFieldGetter
 ) {
+    /** Ohne fachliche Schlüssel würde eine beliebige Entität verändert. */
+    if (options?.naturalKey && options.naturalKey.length < 1) {
+        throw new Error(`natural key of ${name} must not be empty`)
+    }
+
+    /** Bei der Versionsverwaltung wird die aktuelle Version immer mit gemeldet - ältere Entitäten kennen sie noch nicht. */
+    if (options?.versioned && !item._version) {
+        item = {
+            ...item,
+            _version: GqlNullable(GqlInt({ computed: true, description: 'Die aktuelle Version der Entität.' })),
+        }
+    }
+
+    /** Beim Entfernen ohne physikalisches Löschen wird der Zeitpunkt des Entfernens mit gemeldet. */
+    if (options?.softDelete && !item._deletedAt) {
+        item = {
+            ...item,
+            _deletedAt: GqlNullable(
+                GqlDateTime({ computed: true, description: 'Der Zeitpunkt, zu dem die Entität entfernt wurde.' })
+            ),
+        }
+    }
+
+    /**
+     * Die automatisch gepflegten Zeitstempel erscheinen wie alle anderen Felder in Filtern und Sortierungen - bei
+     * älteren Entitäten fehlen sie allerdings.
+     */
+    if (options?.timestamps && !item.createdAt) {
+        item = {
+            ...item,
+            createdAt: GqlNullable(
+                GqlDateTime({
+                    computed: true,
+                    description: 'Der Zeitpunkt, zu dem die Entität angelegt wurde.',
+                    sortable: true,
+                })
+            ),
+            createdBy: GqlNullable(
+                GqlString({ computed: true, description: 'Wer die Entität angelegt hat.', sortable: true })
+            ),
+            updatedAt: GqlNullable(
+                GqlDateTime({
+                    computed: true,
+                    description: 'Der Zeitpunkt, zu dem die Entität zuletzt verändert wurde.',
+                    sortable: true,
+                })
+            ),
+            updatedBy: GqlNullable(
+                GqlString({ computed: true, description: 'Wer die Entität zuletzt verändert hat.', sortable: true })
+            ),
+        }
+    }
+
     /** Vorgegebene Prüfregeln auslesen. */
     const validation: validator.RuleObject = { ...options?.validation, properties: {}, strict: true, type: 'object' }
 
     /** Aus der Strukturbeschreibung das GraphQL Layout und die Prüfinformationen erstellen. */
-    const inputFields: graphql.GraphQLInputFieldConfigMap = {}
-    const updateFields: graphql.GraphQLInputFieldConfigMap = {}
-    const fields: graphql.GraphQLFieldConfigMap<unknown, unknown> = {}
+    const inputs: string[] = []
     const sort: string[] = []
 
+    /** Die Felder im GraphQL Typen werden erst bei Bedarf erstellt - so können sich Typen auch gegenseitig referenzieren. */
+    const createFields = () => {
+        const fields: graphql.GraphQLFieldConfigMap<unknown, unknown> = {}
+
+        for (const field of Object.keys(item)) {
+            const gql = item[field as keyof TLayout]
+
+            if (!gql) {
+                continue
+            }
+
+            /** Mit eingeschränkten Zugriffsrechten ist ein Feld immer optional. */
+            const outputType = gql.outputType
+            const resolveOutput = gql.resolveOutput
+
+            fields[field] = {
+                description: gql.options.description,
+                extensions: resolveOutput && { reference: true },
+                resolve:
+                    resolveOutput &&
+                    ((source: Record<string, unknown>, args, context) => resolveOutput(source[field], context)),
+                type:
+                    gql.options.access?.read && outputType instanceof graphql.GraphQLNonNull
+                        ? outputType.ofType
+                        : outputType,
+            }
+        }
+
+        return fields
+    }
+
     for (const field of Object.keys(item)) {
         const gql = item[field as keyof TLayout]
 
@@ -470,9 +701,6 @@ function createObject<TLayout extends IGqlObjectLayout>(
             continue
         }
 
-        /** Auf jeden Fall ein Feld im GraphQL Typen anlegen. */
-        fields[field] = { description: gql.options.description, type: gql.outputType }
-
         /** Informationen zur Sortierung ergänzen. */
         const sortable = gql.sortable
 
@@ -499,19 +727,36 @@ function createObject<TLayout extends IGqlObjectLayout>(
         /** Prüfregeln vermerken. */
         validation.properties[field] = fieldValidations
 
-        /** Felder erscheinen immer wie gewünscht beim Anlegen von Informationen. */
-        inputFields[field] = { description: gql.options.description, type: gql.inputType }
+        inputs.push(field)
+    }
+
+    /** Auch die Felder für Eingaben werden erst bei Bedarf erstellt. */
+    const createInputFields = (mode: 'input' | 'update') => {
+        const fields: graphql.GraphQLInputFieldConfigMap = {}
+
+        for (const field of inputs) {
+            const gql = item[field as keyof TLayout]
+
+            /** Felder erscheinen immer wie gewünscht beim Anlegen von Informationen. */
+            if (mode === 'input') {
+                fields[field] = { description: gql.options.description, type: gql.inputType }
+
+                continue
+            }
 
-        /** Beim Ändern sind alle Fehler üblicherweise optional (Ausnahme Parameterliste) - dies auch rekursiv. Ganz richtig ist das sicher auch nicht immer. */
-        const updateType = gql.updateType
+            /** Beim Ändern sind alle Fehler üblicherweise optional (Ausnahme Parameterliste) - dies auch rekursiv. Ganz richtig ist das sicher auch nicht immer. */
+            const updateType = gql.updateType
 
-        updateFields[field] = {
-            description: gql.options.description,
-            type:
-                updateType instanceof graphql.GraphQLNonNull || !isArgs
-                    ? updateType
-                    : new graphql.GraphQLNonNull(updateType),
+            fields[field] = {
+                description: gql.options.description,
+                type:
+                    updateType instanceof graphql.GraphQLNonNull || !isArgs
+                        ? updateType
+                        : new graphql.GraphQLNonNull(updateType),
+            }
         }
+
+        return fields
     }
 
     /** Typdefinition anlegen. */
@@ -522,7 +767,7 @@ function createObject<TLayout extends IGqlObjectLayout>(
     // eslint-disable-next-line prefer-const
     type = new graphql.GraphQLObjectType({
         description,
-        fields: fieldGetter ? () => fieldGetter(fields, 'type', type) : fields,
+        fields: fieldGetter ? () => fieldGetter(createFields(), 'type', type) : createFields,
         name,
     })
 
@@ -531,7 +776,8 @@ function createObject<TLayout extends IGqlObjectLayout>(
     // eslint-disable-next-line prefer-const
     inputType = new graphql.GraphQLInputObjectType({
         description,
-        fields: fieldGetter ? () => fieldGetter(inputFields, 'input', inputType) : inputFields,
+        fields: () =>
+            fieldGetter ? fieldGetter(createInputFields('input'), 'input', inputType) : createInputFields('input'),
         name: `${name}Input`,
     })
 
@@ -540,7 +786,8 @@ function createObject<TLayout extends IGqlObjectLayout>(
     // eslint-disable-next-line prefer-const
     updateType = new graphql.GraphQLInputObjectType({
         description,
-        fields: fieldGetter ? () => fieldGetter(updateFields, 'update', updateType) : updateFields,
+        fields: () =>
+            fieldGetter ? fieldGetter(createInputFields('update'), 'update', updateType) : createInputFields('update'),
         name: `${name}Update`,
     })
 
@@ -549,7 +796,8 @@ function createObject<TLayout extends IGqlObjectLayout>(
         sort.length > 0 && sort,
         type,
         inputType,
-        updateType
+        updateType,
+        item
     )
 }
 
@@ -565,7 +813,7 @@ function createObject<TLayout extends IGqlObjectLayout>(
 export function GqlObject<TLayout extends IGqlObjectLayout>(
     name: string,
     item: TLayout,
-    options?: IGqlOptions<validator.RuleObject, 'object'>,
+    options?: IGqlObjectOptions,
     noValidation?: boolean,
     fieldGetter?: TFieldGetter
 ) {
@@ -589,6 +837,9 @@ export function GqlArgs<TLayout extends IGqlObjectLayout>(
 /** Typdefinition für die möglichen Sortierungen. */
 export const SortDirection = GqlEnum('SortDirection', TSortDirection)
 
+/** Bereits erstellte Sortierungen - jeder GraphQL Typ darf nur einmal angelegt werden. */
+const sortTypes = new WeakMap<object, unknown>()
+
 /**
  * Erstellt eine Typdefinition für die Sortierung nach einer Liste von
  * Feldern.
@@ -603,6 +854,27 @@ export function GqlSort<TItem, TFilter extends TGqlFilterTypes, TLayout>(type: G
         return undefined
     }
 
+    /** Die Sortierung kann mehrfach angefordert werden. */
+    const known = sortTypes.get(type)
+
+    if (known) {
+        return known as ReturnType<typeof createSort>
+    }
+
+    const sort = createSort(type.graphQLType.name, sortable)
+
+    sortTypes.set(type, sort)
+
+    return sort
+}
+
+/**
+ * Erstellt die Typdefinition für die Sortierung.
+ *
+ * @param name der Name des zu sortierenden GraphQL Typs.
+ * @param sortable alle sortierbaren Felder.
+ */
+function createSort(name: string, sortable: string[]) {
     /** Auflistung für die möglichen Fehler erstellen. */
     const enumBase: Record<string, string> = {}
 
@@ -612,10 +884,69 @@ export function GqlSort<TItem, TFilter extends TGqlFilterTypes, TLayout>(type: G
 
     return GqlNullable(
         GqlArray(
-            GqlObject(`${type.graphQLType.name}Sort`, {
+            GqlObject(`${name}Sort`, {
                 direction: SortDirection,
-                field: GqlEnum(`${type.graphQLType.name}SortFields`, enumBase),
+                field: GqlEnum(`${name}SortFields`, enumBase),
             })
         )
     )
 }
+
+/** Ein Punkt im GeoJSON Format. */
+export interface IGeoPoint {
+    /** Längen- und Breitengrad. */
+    coordinates: [number, number]
+    /** Die Art der Geometrie. */
+    type: 'Point'
+}
+
+/** Die Struktur eines Punktes im GeoJSON Format. */
+const geoPointLayout = {
+    coordinates: GqlArray(GqlFloat(), { description: 'Längen- und Breitengrad.' }),
+    type: GqlString({ description: 'Die Art der Geometrie - immer Point.' }),
+}
+
+/** Die GraphQL Typen eines Punktes werden von allen Feldern gemeinsam verwendet. */
+const geoPoint = GqlObject('GeoPoint', geoPointLayout, { description: 'Ein Punkt im GeoJSON Format.' })
+
+/** Der GraphQL Typ eines Punktes. */
+export const GraphQLGeoPoint = geoPoint.graphQLType
+
+/**
+ * Typdefinition für einen Punkt im GeoJSON Format - in der Datenbank wird dafür ein
+ * 2dsphere Index angelegt.
+ *
+ * @param options Optionale Feineinstellungen für die Typdefinition.
+ */
+export function GqlGeoPoint(options?: Omit<IGqlOptions<validator.RuleObject, 'object'>, 'sortable'>) {
+    /** Beim Ändern muss immer der vollständige Punkt angegeben werden. */
+    const properties: validator.ValidationSchema = {
+        coordinates: {
+            items: [
+                { max: 180, min: -180, type: 'number' },
+                { max: 90, min: -90, type: 'number' },
+            ],
+            optional: false,
+            type: 'tuple',
+        },
+        type: { optional: false, strict: true, type: 'equal', value: 'Point' },
+    }
+
+    return new GqlRecord<IGeoPoint, typeof geoPointLayout, 'geo'>(
+        { ...options, validation: { ...options?.validation, properties, strict: true, type: 'object' } },
+        false,
+        geoPoint.graphQLType,
+        geoPoint.graphQLInputType,
+        geoPoint.graphQLInputType,
+        geoPointLayout
+    )
+}
+
+/**
+ * Prüft, ob eine Typdefinition einen Punkt im GeoJSON Format beschreibt.
+ *
+ * @param type die zu prüfende Typdefinition.
+ */
+export function isGeoPoint(type: GqlBase<unknown, TGqlFilterTypes, unknown>): boolean {
+    return type instanceof GqlRecord && type.graphQLType === GraphQLGeoPoint
+}
@@ -0,0 +1,259 @@
+/* eslint-disable @typescript-eslint/explicit-function-return-type */
+
+import { RuleNumber } from 'fastest-validator'
+import * as graphql from 'graphql'
+import { Document, Filter } from 'mongodb'
+
+import { createError, IFieldError } from './errors'
+import * as types from './types'
+
+/** Die möglichen Operationen auf einzelnen Feldern. */
+export interface IUpdateOperations {
+    /** Elemente zu Feldern hinzufügen, sofern sie noch nicht vorhanden sind. */
+    addToSet?: Record<string, unknown[]>
+    /** Zahlen verändern. */
+    inc?: Record<string, number>
+    /** Elemente aus Feldern entfernen. */
+    pull?: Record<string, unknown[]>
+    /** Elemente an Felder anhängen. */
+    push?: Record<string, unknown[]>
+    /** Optionale Felder entfernen. */
+    unset?: string[]
+}
+
+/** Bereits erstellte Operationen - jeder GraphQL Typ darf nur einmal angelegt werden. */
+const operationTypes = new WeakMap<object, unknown>()
+
+/**
+ * Erstellt die Typdefinition für die Operationen auf den Feldern eines Objektes.
+ *
+ * @param type die Typdefinition des Objektes.
+ */
+export function GqlUpdateOperations<TItem, TLayout>(type: types.GqlRecord<TItem, TLayout>) {
+    /** Die Operationen können mehrfach angefordert werden. */
+    if (operationTypes.has(type)) {
+        return operationTypes.get(type) as ReturnType<typeof createOperations>
+    }
+
+    const operations = createOperations(type.graphQLType.name, type.layout as types.IGqlObjectLayout)
+
+    operationTypes.set(type, operations)
+
+    return operations
+}
+
+/**
+ * Erstellt die Typdefinition für die Operationen.
+ *
+ * @param name der Name des GraphQL Typs.
+ * @param layout die Struktur des Objektes.
+ */
+function createOperations(name: string, layout: types.IGqlObjectLayout) {
+    const inc: types.IGqlObjectLayout = {}
+    const lists: types.IGqlObjectLayout = {}
+    const unset: Record<string, string> = {}
+
+    for (const field of Object.keys(layout)) {
+        const gql = layout[field]
+
+        /** Berechnete Felder können nicht verändert werden. */
+        if (!gql || gql.options.computed) {
+            continue
+        }
+
+        if (gql.options.validation?.optional) {
+            unset[field] = field
+        }
+
+        const fieldType = graphql.getNullableType(gql.outputType)
+
+        if (gql instanceof types.GqlList) {
+            /** Die Elemente werden wie beim Anlegen geprüft. */
+            lists[field] = types.GqlNullable(types.GqlArray(gql.item))
+        } else if (fieldType === graphql.GraphQLInt) {
+            inc[field] = types.GqlNullable(types.GqlInt())
+        } else if (fieldType === graphql.GraphQLFloat) {
+            inc[field] = types.GqlNullable(types.GqlFloat())
+        }
+    }
+
+    /** Nur die tatsächlich möglichen Operationen werden angeboten. */
+    const elements = Object.keys(lists).length > 0 ? types.GqlObject(`${name}Elements`, lists) : undefined
+    const increments = Object.keys(inc).length > 0 ? types.GqlObject(`${name}Increments`, inc) : undefined
+    const optional = Object.keys(unset).length > 0 ? types.GqlEnum(`${name}OptionalFields`, unset) : undefined
+
+    if (!elements && !increments && !optional) {
+        return undefined
+    }
+
+    return types.GqlNullable(
+        types.GqlObject(
+            `${name}UpdateOperations`,
+            {
+                addToSet: elements && types.GqlNullable(elements),
+                inc: increments && types.GqlNullable(increments),
+                pull: elements && types.GqlNullable(elements),
+                push: elements && types.GqlNullable(elements),
+                unset: optional && types.GqlNullable(types.GqlArray(optional)),
+            },
+            { description: 'Atomare Operationen auf einzelnen Feldern.' }
+        )
+    )
+}
+
+/**
+ * Meldet alle tatsächlich angegebenen Operationen einer Art.
+ *
+ * @param operations die Operationen zu allen Feldern.
+ */
+function getOperations<T>(operations: Record<string, T> | undefined): [string, T][] {
+    return Object.entries(operations || {}).filter(([, value]) => value !== null && value !== undefined)
+}
+
+/**
+ * Erstellt die MongoDb Beschreibung einer Änderung.
+ *
+ * @param item die zu setzenden Werte.
+ * @param operations optional die Operationen auf einzelnen Feldern.
+ */
+export function toMongoUpdate(item: object, operations?: IUpdateOperations): Document {
+    const update: Record<string, Record<string, unknown>> = {}
+
+    /** Jedes Feld darf nur einmal verändert werden. */
+    const errors: IFieldError[] = []
+    const used = new Set<string>()
+
+    const add = (op: string, field: string, value: unknown) => {
+        if (used.has(field)) {
+            errors.push({
+                field,
+                message: `The '${field}' field can only be changed once.`,
+                type: 'conflict',
+            })
+        }
+
+        used.add(field)
+
+        update[op] = { ...update[op], [field]: value }
+    }
+
+    for (const field of Object.keys(item)) {
+        add('$set', field, (item as Record<string, unknown>)[field])
+    }
+
+    for (const [field, value] of getOperations(operations?.inc)) {
+        add('$inc', field, value)
+    }
+
+    for (const [field, value] of getOperations(operations?.push)) {
+        add('$push', field, { $each: value })
+    }
+
+    for (const [field, value] of getOperations(operations?.addToSet)) {
+        add('$addToSet', field, { $each: value })
+    }
+
+    for (const [field, value] of getOperations(operations?.pull)) {
+        add('$pull', field, { $in: value })
+    }
+
+    for (const field of operations?.unset || []) {
+        add('$unset', field, '')
+    }
+
+    if (errors.length > 0) {
+        throw createError('BAD_USER_INPUT', 'bad item', { fields: errors })
+    }
+
+    return update
+}
+
+/**
+ * Ermittelt die erlaubten Grenzen einer Zahl.
+ *
+ * @param layout die Struktur des Objektes.
+ * @param field der Name des Feldes.
+ */
+function getRange(layout: types.IGqlObjectLayout, field: string): { max?: number; min?: number } {
+    const rule = layout[field]?.options.validation as RuleNumber
+
+    return { max: rule?.max, min: rule?.min }
+}
+
+/**
+ * Erstellt eine Suchbedingung, die nur Entitäten zulässt, bei denen die veränderten Zahlen
+ * innerhalb ihrer erlaubten Grenzen bleiben - so erfolgt die Prüfung atomar mit der Änderung.
+ *
+ * @param layout die Struktur des Objektes.
+ * @param operations optional die Operationen auf einzelnen Feldern.
+ */
+export function createIncrementFilter(
+    layout: types.IGqlObjectLayout,
+    operations?: IUpdateOperations
+): Filter<unknown> | undefined {
+    const conditions: Filter<unknown>[] = []
+
+    for (const [field, value] of getOperations(operations?.inc)) {
+        const { max, min } = getRange(layout, field)
+        const range: Record<string, number> = {}
+
+        if (typeof min === 'number') {
+            range.$gte = min - value
+        }
+
+        if (typeof max === 'number') {
+            range.$lte = max - value
+        }
+
+        if (Object.keys(range).length < 1) {
+            continue
+        }
+
+        /** Ein fehlendes Feld erhält genau den Wert der Veränderung. */
+        const missing = (typeof min !== 'number' || value >= min) && (typeof max !== 'number' || value <= max)
+
+        conditions.push(missing ? { $or: [{ [field]: range }, { [field]: { $exists: false } }] } : { [field]: range })
+    }
+
+    return conditions.length > 0 ? { $and: conditions } : undefined
+}
+
+/**
+ * Meldet alle veränderten Zahlen einer Entität, die ihre erlaubten Grenzen verlassen würden.
+ *
+ * @param item die Entität vor der Veränderung.
+ * @param layout die Struktur des Objektes.
+ * @param operations optional die Operationen auf einzelnen Feldern.
+ */
+export function checkIncrements(
+    item: object,
+    layout: types.IGqlObjectLayout,
+    operations?: IUpdateOperations
+): IFieldError[] {
+    const errors: IFieldError[] = []
+
+    for (const [field, value] of getOperations(operations?.inc)) {
+        const { max, min } = getRange(layout, field)
+        const actual = ((item as Record<string, number>)[field] || 0) + value
+
+        if (typeof min === 'number' && actual < min) {
+            errors.push({
+                actual,
+                expected: min,
+                field,
+                message: `The '${field}' field must be greater than or equal to ${min}.`,
+                type: 'numberMin',
+            })
+        } else if (typeof max === 'number' && actual > max) {
+            errors.push({
+                actual,
+                expected: max,
+                field,
+                message: `The '${field}' field must be less than or equal to ${max}.`,
+                type: 'numberMax',
+            })
+        }
+    }
+
+    return errors
+}
@@ -1,5 +1,6 @@
 import { ValidationSchema, ValidationRuleObject } from 'fastest-validator'
 
+import { createError, IFieldError } from './errors'
 import { GqlRecord } from './types'
 
 /**
@@ -13,7 +14,16 @@ export function validateAndThrow<T>(data: T, type: GqlRecord<T, unknown>, forUpd
     const errors = type.validate(data, forUpdate)
 
     if (errors !== true) {
-        throw new Error(`bad item: ${JSON.stringify(errors)}`)
+        /** Die Fehler werden so gemeldet, dass ein Client sie den einzelnen Feldern zuordnen kann. */
+        const fields = errors.map<IFieldError>(({ actual, expected, field, message, type }) => ({
+            actual,
+            expected,
+            field,
+            message,
+            type,
+        }))
+
+        throw createError('BAD_USER_INPUT', 'bad item', { fields })
     }
 }
 